@@ -0,0 +1,116 @@
+"use client"
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { AdjustmentResult } from "@/lib/dynamics"
+import {
+  formatCurrency,
+  formatCurrencyCompact,
+  formatUsage,
+  toVolume,
+  volumeLabel,
+  type UnitSettings,
+} from "@/lib/units"
+
+interface AdjustmentPathProps {
+  result: AdjustmentResult | null
+  /**
+   * Inputs have changed since `result` was run
+   */
+  stale: boolean
+  units: UnitSettings
+  onRun: () => void
+}
+
+export default function AdjustmentPath({ result, stale, units, onRun }: AdjustmentPathProps) {
+  const chartData = (result?.years ?? []).map((year) => ({
+    label: `Y${year.year}`,
+    mg: Number(toVolume(year.usageMG, units).toFixed(2)),
+    revenue: Number(year.revenue.toFixed(0)),
+    medianUsage: year.medianUsage,
+  }))
+  const longRunVolume = result ? toVolume(result.longRun.usageMG * 12, units) : 0
+  const first = result?.years[0]
+  const last = result?.years[result.years.length - 1]
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between pb-3">
+        <div>
+          <CardTitle className="text-slate-900">Adjustment Path</CardTitle>
+          <CardDescription className="text-slate-600">Annual water use and revenue in each year after the rate change</CardDescription>
+        </div>
+        {first && last && (
+          <div className="text-right text-sm">
+            <div className="font-mono text-slate-900">
+              Y1 {toVolume(first.usageMG, units).toFixed(1)} → Y{last.year} {toVolume(last.usageMG, units).toFixed(1)}{" "}
+              {volumeLabel(units)}/yr
+            </div>
+            <div className="font-mono text-slate-900">
+              {formatCurrency(first.revenue, units)} → {formatCurrency(last.revenue, units)}/yr
+            </div>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {(!result || stale) && (
+          <div className="flex items-center justify-between gap-3">
+            <p className={`text-xs ${stale ? "text-amber-700" : "text-slate-500"}`}>
+              {stale ? "Inputs have changed since this run." : "Runs the short- and long-run responses for the same households."}
+            </p>
+            <Button onClick={onRun} size="sm">
+              {result ? "Re-run" : "Run"}
+            </Button>
+          </div>
+        )}
+        {result && (
+          <>
+            <ResponsiveContainer width="100%" height={250}>
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="label" stroke="#64748b" />
+                <YAxis yAxisId="mg" stroke="#64748b" domain={["auto", "auto"]} />
+                <YAxis
+                  yAxisId="revenue"
+                  orientation="right"
+                  stroke="#64748b"
+                  domain={["auto", "auto"]}
+                  tickFormatter={(value) => formatCurrencyCompact(Number(value), units)}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: "#f8fafc", border: "1px solid #e2e8f0", borderRadius: "6px" }}
+                  labelStyle={{ color: "#0f172a" }}
+                  formatter={(value, name, props) => {
+                    if (name === "Revenue") return [formatCurrency(Number(value), units), name]
+                    const median = props?.payload?.medianUsage
+                    const medianLabel = median === undefined ? "" : ` (median ${formatUsage(median, units)}/mo)`
+                    return [`${Number(value).toFixed(2)} ${volumeLabel(units)}${medianLabel}`, name]
+                  }}
+                />
+                <Legend />
+                <ReferenceLine
+                  yAxisId="mg"
+                  y={longRunVolume}
+                  stroke="#9498F2"
+                  strokeDasharray="4 4"
+                  label={{ value: "Long run", fill: "#64748b", position: "insideTopLeft" }}
+                />
+                <Line yAxisId="mg" type="monotone" dataKey="mg" name="Water use" stroke="#9498F2" strokeWidth={2} />
+                <Line yAxisId="revenue" type="monotone" dataKey="revenue" name="Revenue" stroke="#6DC978" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-slate-500">Annual totals are 12 × the representative month for the same household draws.</p>
+            {result.warnings.length > 0 && (
+              <ul className="list-disc pl-4 text-xs text-amber-800">
+                {result.warnings.slice(0, 4).map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
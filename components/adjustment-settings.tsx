@@ -0,0 +1,101 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { MAX_ADJUSTMENT_YEARS, type AdjustmentSettings as AdjustmentSettingsState } from "@/lib/dynamics"
+
+interface AdjustmentSettingsProps {
+  settings: AdjustmentSettingsState
+  onChange: (settings: AdjustmentSettingsState) => void
+}
+
+const inputClassName =
+  "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+const readNumber = (value: string, fallback: number) => {
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+export default function AdjustmentSettings({ settings, onChange }: AdjustmentSettingsProps) {
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Multi-year Adjustment</CardTitle>
+        <CardDescription className="text-slate-600">Short-run vs long-run response after a rate change</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Simulate years after the change
+        </label>
+
+        {settings.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Short-run ε</label>
+                <input
+                  type="number"
+                  max={0}
+                  step="0.01"
+                  value={settings.shortRunElasticity}
+                  onChange={(e) => onChange({ ...settings, shortRunElasticity: readNumber(e.target.value, 0) })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Long-run ε</label>
+                <input
+                  type="number"
+                  max={0}
+                  step="0.01"
+                  value={settings.longRunElasticity}
+                  onChange={(e) => onChange({ ...settings, longRunElasticity: readNumber(e.target.value, 0) })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Years</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_ADJUSTMENT_YEARS}
+                  step="1"
+                  value={settings.years}
+                  onChange={(e) =>
+                    onChange({
+                      ...settings,
+                      years: Math.min(Math.max(Math.round(readNumber(e.target.value, 1)), 1), MAX_ADJUSTMENT_YEARS),
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Adjustment speed (λ)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step="0.05"
+                  value={settings.speed}
+                  onChange={(e) => onChange({ ...settings, speed: Math.min(Math.max(readNumber(e.target.value, 0), 0), 1) })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              Year 1 uses the short-run elasticity; each later year closes λ of the remaining gap to the long-run response
+              (appliance turnover, landscape changes).
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,150 @@
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from "recharts"
+import type { RateSchedule } from "@/lib/bills"
+import type { DemandModelOptions } from "@/lib/demand"
+import {
+  DEFAULT_INCOME_BY_DECILE,
+  computeAffordability,
+  type AffordabilitySettings,
+} from "@/lib/affordability"
+import type { MeterAssignment } from "@/lib/meters"
+import { currencySymbol, type UnitSettings } from "@/lib/units"
+
+interface AffordabilityPanelProps {
+  q0: number[]
+  q1: number[]
+  baseline: RateSchedule
+  proposal: RateSchedule
+  budgets?: number[]
+  meters?: MeterAssignment
+  /**
+   * Proposal bills with assistance discounts applied, when the program is on
+   */
+  bills?: number[]
+  model?: DemandModelOptions
+  settings: AffordabilitySettings
+  units: UnitSettings
+  onSettingsChange: (settings: AffordabilitySettings) => void
+}
+
+const formatPct = (value: number, decimals = 1) => `${(value * 100).toFixed(decimals)}%`
+
+const AffordabilityPanel = ({
+  q0,
+  q1,
+  baseline,
+  proposal,
+  budgets,
+  meters,
+  bills,
+  model,
+  settings,
+  units,
+  onSettingsChange,
+}: AffordabilityPanelProps) => {
+  const result = computeAffordability({ q0, q1, baseline, proposal, budgets, meters, proposalBills: bills, model, ...settings })
+  const data = result.thresholds.map((entry) => ({
+    label: `> ${formatPct(entry.threshold)} MHI`,
+    baseline: entry.baselineShare * 100,
+    proposal: entry.proposalShare * 100,
+  }))
+
+  const updateDecile = (idx: number, value: string) => {
+    const parsed = Number.parseFloat(value)
+    const current = settings.incomeByDecile ?? DEFAULT_INCOME_BY_DECILE
+    onSettingsChange({
+      ...settings,
+      incomeByDecile: current.map((factor, i) => (i === idx ? (Number.isFinite(parsed) ? Math.max(parsed, 0) : 0) : factor)),
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-slate-800">Affordability (Bill as % of Income)</h3>
+      <p className="text-xs text-slate-500">
+        Annual water bill ÷ household income; share of simulated households above the 2%, 2.5% and 4.5% thresholds.
+        {model?.sewer?.enabled && " Bills include sewer charges."}
+        {model?.surcharges?.enabled && " Bills include taxes and surcharges."}
+        {bills && " Proposal bills of assistance participants include their discount."}
+      </p>
+      <div className="grid grid-cols-2 gap-2 items-end">
+        <div>
+          <label className="text-xs text-slate-600 mb-1 block">Median household income ({currencySymbol(units)}/yr)</label>
+          <input
+            type="number"
+            step="1000"
+            value={settings.medianIncome}
+            onChange={(e) => onSettingsChange({ ...settings, medianIncome: Math.max(Number.parseFloat(e.target.value) || 0, 0) })}
+            className="w-full px-2 py-1 bg-white border border-slate-300 rounded text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-700 pb-1">
+          <input
+            type="checkbox"
+            checked={settings.incomeByDecile !== null}
+            onChange={(e) =>
+              onSettingsChange({ ...settings, incomeByDecile: e.target.checked ? [...DEFAULT_INCOME_BY_DECILE] : null })
+            }
+            className="accent-blue-600"
+          />
+          Map income to usage deciles
+        </label>
+      </div>
+      {settings.incomeByDecile && (
+        <div className="grid grid-cols-5 sm:grid-cols-10 gap-1">
+          {settings.incomeByDecile.map((factor, idx) => (
+            <div key={`decile-income-${idx}`}>
+              <label className="text-[10px] text-slate-500 block">D{idx + 1} ×MHI</label>
+              <input
+                type="number"
+                step="0.05"
+                value={factor}
+                onChange={(e) => updateDecile(idx, e.target.value)}
+                className="w-full px-1 py-0.5 bg-white border border-slate-300 rounded text-slate-900 text-xs"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      {result.sampleCount === 0 ? (
+        <p className="text-xs text-slate-500">Set a baseline to evaluate affordability.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <span className="text-slate-600">Median bill % of MHI</span>
+            <span className="font-mono text-slate-900">Baseline {formatPct(result.baselineBurden, 2)}</span>
+            <span className="font-mono text-slate-900">
+              Proposal {formatPct(result.proposalBurden, 2)} ({result.proposalBurden >= result.baselineBurden ? "+" : "−"}
+              {(Math.abs(result.proposalBurden - result.baselineBurden) * 100).toFixed(2)} pts)
+            </span>
+          </div>
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="label" stroke="#64748b" />
+                <YAxis stroke="#64748b" tickFormatter={(value) => `${Number(value).toFixed(0)}%`} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: "#f8fafc", border: "1px solid #e2e8f0", borderRadius: "6px" }}
+                  formatter={(value, name) => [`${Number(value).toFixed(1)}% of households`, name as string]}
+                />
+                <Legend />
+                <Bar dataKey="baseline" name="Baseline" fill="#c7d2fe" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="proposal" name="Proposal" fill="#818cf8" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            {result.thresholds.map((entry) => (
+              <span key={entry.threshold} className="font-mono text-slate-700">
+                {formatPct(entry.threshold)}: {entry.change >= 0 ? "+" : "−"}
+                {(Math.abs(entry.change) * 100).toFixed(1)} pts
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default AffordabilityPanel
@@ -1,45 +1,63 @@
-import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, LabelList, Cell } from "recharts"
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, LabelList, Cell, Legend } from "recharts"
 import { computeDecileImpacts } from "@/lib/analytics"
+import { toVolume, volumeLabel, type UnitSettings } from "@/lib/units"
 
 interface DecileWaterfallProps {
   q0: number[]
   q1: number[]
   N: number
+  outdoor0?: number[]
+  outdoor1?: number[]
+  units: UnitSettings
 }
 
-const DecileWaterfall = ({ q0, q1, N }: DecileWaterfallProps) => {
-  const impacts = computeDecileImpacts(q0, q1, N)
+const DecileWaterfall = ({ q0, q1, N, outdoor0, outdoor1, units }: DecileWaterfallProps) => {
+  const impacts = computeDecileImpacts(q0, q1, N, outdoor0, outdoor1)
+  const unit = volumeLabel(units)
+  const volume = (mg: number) => Number(toVolume(mg, units).toFixed(4))
   const data = impacts.map((impact) => ({
     decile: impact.decile,
-    deltaMG: Number(impact.deltaMG.toFixed(4)),
+    deltaMG: volume(impact.deltaMG),
     pctLabel: `${(impact.pctOfTotal * 100).toFixed(0)}%`,
+    outdoorMG: volume(impact.outdoorDeltaMG ?? 0),
+    indoorMG: volume(impact.deltaMG - (impact.outdoorDeltaMG ?? 0)),
   }))
+  const splitByEndUse = impacts.some((impact) => impact.outdoorDeltaMG !== undefined)
 
   return (
     <div className="space-y-2">
-      <h3 className="text-sm font-semibold text-slate-800">Who Drove the Savings? (ΔMG by Usage Decile)</h3>
-      <p className="text-xs text-slate-500">ΔMG = (N/S) · Σ(q* − q₀) / 1000 by baseline usage decile.</p>
+      <h3 className="text-sm font-semibold text-slate-800">Who Drove the Savings? (Δ{unit} by Usage Decile)</h3>
+      <p className="text-xs text-slate-500">
+        Δ{unit} = (N/S) · Σ(q* − q₀) by baseline usage decile{splitByEndUse ? ", split into indoor and outdoor use" : ""}.
+      </p>
       {q0.length === 0 || q1.length === 0 ? (
         <p className="text-xs text-slate-500">Run a scenario to see how different usage groups respond.</p>
       ) : (
         <div className="h-48">
           <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={data}>
+            <BarChart data={data} stackOffset={splitByEndUse ? "sign" : undefined}>
               <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
               <XAxis dataKey="decile" stroke="#64748b" />
               <YAxis
                 stroke="#64748b"
-                tickFormatter={(value) => `${value.toFixed(2)} MG`}
-                label={{ value: "ΔMG", angle: -90, position: "insideLeft", fill: "#475569" }}
+                tickFormatter={(value) => `${value.toFixed(2)} ${unit}`}
+                label={{ value: `Δ${unit}`, angle: -90, position: "insideLeft", fill: "#475569" }}
               />
               <Tooltip
                 contentStyle={{ backgroundColor: "#f8fafc", border: "1px solid #e2e8f0", borderRadius: "6px" }}
                 formatter={(value, _name, payload) => {
                   if (typeof value !== "number") return value
-                  return [`${value.toFixed(3)} MG (${payload?.payload?.pctLabel} of total)`, payload?.payload?.decile]
+                  return [`${value.toFixed(3)} ${unit} (${payload?.payload?.pctLabel} of total)`, payload?.payload?.decile]
                 }}
               />
-              <Bar dataKey="deltaMG" isAnimationActive={false}>
+              {splitByEndUse && <Legend />}
+              {splitByEndUse && (
+                <Bar dataKey="indoorMG" name="Indoor" stackId="end-use" fill="#93c5fd" isAnimationActive={false} />
+              )}
+              {splitByEndUse && (
+                <Bar dataKey="outdoorMG" name="Outdoor" stackId="end-use" fill="#34d399" isAnimationActive={false} />
+              )}
+              <Bar dataKey="deltaMG" hide={splitByEndUse} isAnimationActive={false}>
                 <LabelList
                   dataKey="pctLabel"
                   position="top"
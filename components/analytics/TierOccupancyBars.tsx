@@ -1,18 +1,31 @@
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from "recharts"
 import type { Tier } from "@/lib/demand"
-import { computeTierOccupancy, tierKeys } from "@/lib/analytics"
+import { ALLOWANCE_KEY, computeBreakShare, computeKinkShare, computeTierOccupancy, tierKeys } from "@/lib/analytics"
+import { usageAsBudgetPercent } from "@/lib/budget"
 
 interface TierOccupancyBarsProps {
   tiers: Tier[]
   qBaseline: number[]
   qProposal: number[]
+  /**
+   * Per-household budgets; when given, tier breaks are read as % of each budget
+   */
+  budgets?: number[]
+  /**
+   * Usage (kgal) included in the base fee, shown as its own block below the tiers
+   */
+  allowance?: number
 }
 
-const TierOccupancyBars = ({ tiers, qBaseline, qProposal }: TierOccupancyBarsProps) => {
-  const keys = tierKeys(tiers)
-  const baselineShares = computeTierOccupancy(tiers, qBaseline)
+const TierOccupancyBars = ({ tiers, qBaseline, qProposal, budgets, allowance = 0 }: TierOccupancyBarsProps) => {
+  const baselinePoints = budgets ? usageAsBudgetPercent(qBaseline, budgets) : qBaseline
+  const proposalPoints = budgets ? usageAsBudgetPercent(qProposal, budgets) : qProposal
+  // The allowance is in kgal whatever unit the tier breaks use, so it is checked on raw usage.
+  const withinAllowance = (usages: number[]) => (allowance > 0 ? usages.map((usage) => usage < allowance) : undefined)
+  const keys = allowance > 0 ? [ALLOWANCE_KEY, ...tierKeys(tiers)] : tierKeys(tiers)
+  const baselineShares = computeTierOccupancy(tiers, baselinePoints, withinAllowance(qBaseline))
   baselineShares.label = "Baseline"
-  const proposalShares = computeTierOccupancy(tiers, qProposal)
+  const proposalShares = computeTierOccupancy(tiers, proposalPoints, withinAllowance(qProposal))
   proposalShares.label = "Proposal"
 
   const dataset = [baselineShares, proposalShares].map((row) => {
@@ -22,11 +35,16 @@ const TierOccupancyBars = ({ tiers, qBaseline, qProposal }: TierOccupancyBarsPro
     })
     return entry
   })
+  const allowanceKink = (usages: number[]) => (allowance > 0 ? computeBreakShare([allowance], usages) : 0)
+  const baselineKink = computeKinkShare(tiers, baselinePoints) + allowanceKink(qBaseline)
+  const proposalKink = computeKinkShare(tiers, proposalPoints) + allowanceKink(qProposal)
 
   return (
     <div className="space-y-2">
       <h3 className="text-sm font-semibold text-slate-800">Tier Occupancy (Before → After)</h3>
-      <p className="text-xs text-slate-500">Share of accounts by active tier.</p>
+      <p className="text-xs text-slate-500">
+        {budgets ? "Share of accounts by active budget tier (usage as % of each household's budget)." : "Share of accounts by active tier."}
+      </p>
       {qBaseline.length === 0 || qProposal.length === 0 ? (
         <p className="text-xs text-slate-500">Set a baseline and run a scenario to see tier occupancy.</p>
       ) : (
@@ -46,7 +64,7 @@ const TierOccupancyBars = ({ tiers, qBaseline, qProposal }: TierOccupancyBarsPro
                   key={key}
                   dataKey={key}
                   stackId="a"
-                  fill={idx % 2 === 0 ? "#a5b4fc" : "#c7d2fe"}
+                  fill={key === ALLOWANCE_KEY ? "#bbf7d0" : idx % 2 === 0 ? "#a5b4fc" : "#c7d2fe"}
                   radius={idx === keys.length - 1 ? [4, 4, 0, 0] : [0, 0, 0, 0]}
                 />
               ))}
@@ -54,6 +72,12 @@ const TierOccupancyBars = ({ tiers, qBaseline, qProposal }: TierOccupancyBarsPro
           </ResponsiveContainer>
         </div>
       )}
+      {(baselineKink > 0 || proposalKink > 0) && (
+        <p className="text-xs text-slate-500">
+          At a tier break: {(baselineKink * 100).toFixed(1)}% → {(proposalKink * 100).toFixed(1)}% of accounts (counted in the
+          tier above).
+        </p>
+      )}
     </div>
   )
 }
@@ -1,15 +1,18 @@
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, ReferenceLine, CartesianGrid } from "recharts"
 import type { Tier } from "@/lib/demand"
 import { buildUsageHistogram, tierBreaks } from "@/lib/analytics"
+import { USAGE_UNITS, toUsage, usageLabel, type UnitSettings } from "@/lib/units"
 
 interface UsageHistogramProps {
   q0: number[]
   tiers: Tier[]
+  units: UnitSettings
 }
 
-const UsageHistogram = ({ q0, tiers }: UsageHistogramProps) => {
-  const histogram = buildUsageHistogram(q0)
-  const tierLines = tierBreaks(tiers)
+const UsageHistogram = ({ q0, tiers, units }: UsageHistogramProps) => {
+  const { binWidth, binMax } = USAGE_UNITS[units.usage]
+  const histogram = buildUsageHistogram(q0.map((usage) => toUsage(usage, units)), binWidth, binMax)
+  const tierLines = tierBreaks(tiers).map((value) => toUsage(value, units))
 
   const formatLabel = (binStart: number, binEnd: number) => {
     if (binEnd === Number.POSITIVE_INFINITY) {
@@ -31,7 +34,7 @@ const UsageHistogram = ({ q0, tiers }: UsageHistogramProps) => {
       const bin = histogram.find(
         (entry) =>
           value >= entry.binStart &&
-          value < (entry.binEnd === Number.POSITIVE_INFINITY ? value + 1 : entry.binEnd),
+          value < (entry.binEnd === Number.POSITIVE_INFINITY ? value + binWidth : entry.binEnd),
       )
       return bin ? formatLabel(bin.binStart, bin.binEnd) : null
     })
@@ -40,7 +43,7 @@ const UsageHistogram = ({ q0, tiers }: UsageHistogramProps) => {
   return (
     <div className="space-y-2">
       <h3 className="text-sm font-semibold text-slate-800">Usage Diversity (Baseline)</h3>
-      <p className="text-xs text-slate-500">Share of accounts by typical monthly use. Reference lines mark tier breaks.</p>
+      <p className="text-xs text-slate-500">Share of accounts by typical monthly use ({usageLabel(units)}). Reference lines mark tier breaks.</p>
       {histogram.length === 0 ? (
         <p className="text-xs text-slate-500">Set a baseline to view usage diversity.</p>
       ) : (
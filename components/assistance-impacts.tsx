@@ -0,0 +1,103 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { RateSchedule } from "@/lib/bills"
+import { computeAssistanceImpacts, type AssistanceResult } from "@/lib/assistance"
+import type { MeterAssignment } from "@/lib/meters"
+import { formatCurrency, formatCurrencyChange, type UnitSettings } from "@/lib/units"
+
+interface AssistanceImpactsProps {
+  result: AssistanceResult
+  q0: number[]
+  bills: number[]
+  participants: boolean[]
+  baseline: RateSchedule
+  budgets?: number[]
+  meters?: MeterAssignment
+  units: UnitSettings
+}
+
+export default function AssistanceImpacts({
+  result,
+  q0,
+  bills,
+  participants,
+  baseline,
+  budgets,
+  meters,
+  units,
+}: AssistanceImpactsProps) {
+  const impacts = computeAssistanceImpacts({
+    q0,
+    bills,
+    participants,
+    baseline,
+    budgets,
+    meters,
+    fundingIncrease: result.fundingIncrease,
+  })
+
+  const summary = [
+    { label: "Eligible connections", value: result.eligible.toFixed(0) },
+    { label: "Participants", value: result.participants.toFixed(0) },
+    { label: "Discounts", value: `${formatCurrency(result.discountCost, units)}/mo` },
+    { label: "Administration", value: `${formatCurrency(result.adminCost, units)}/mo` },
+    {
+      label: "Program cost",
+      value: `${formatCurrency(result.programCost, units)}/mo · ${formatCurrency(result.programCost * 12, units)}/yr`,
+    },
+    { label: "Funding increase", value: `+${(result.fundingIncrease * 100).toFixed(2)}% on non-participant bills` },
+  ]
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-slate-900">Customer Assistance Program</CardTitle>
+        <CardDescription className="text-slate-600">Program cost, its funding, and bills for participants vs everyone else</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+          {summary.map((row) => (
+            <div key={row.label} className="flex justify-between border-t border-slate-100 py-1">
+              <span className="text-slate-600">{row.label}</span>
+              <span className="font-mono text-slate-900">{row.value}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="text-left font-medium py-1">Group</th>
+                <th className="text-right font-medium py-1">Samples</th>
+                <th className="text-right font-medium py-1">Median baseline bill</th>
+                <th className="text-right font-medium py-1">Median proposal bill</th>
+                <th className="text-right font-medium py-1">Change</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-slate-900">
+              {impacts.map((row) => (
+                <tr key={row.label} className="border-t border-slate-100">
+                  <td className="py-1 font-sans">{row.label}</td>
+                  <td className="text-right">{row.households}</td>
+                  <td className="text-right">{formatCurrency(row.medianBaselineBill, units, 2)}</td>
+                  <td className="text-right">{formatCurrency(row.medianProposalBill, units, 2)}</td>
+                  <td className={`text-right ${row.change > 0 ? "text-red-600" : "text-green-600"}`}>
+                    {formatCurrencyChange(row.change, units)}
+                    {row.percentChange !== null && ` (${row.percentChange >= 0 ? "+" : ""}${row.percentChange.toFixed(1)}%)`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          Participant bills are the discounted proposal after their usage response; non-participant bills include the
+          funding increase. Baseline bills are the frozen baseline schedule at each household&apos;s baseline use.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ASSISTANCE_DISCOUNT_LABELS,
+  type AssistanceDiscount,
+  type AssistanceSettings as AssistanceSettingsState,
+} from "@/lib/assistance"
+import {
+  currencySymbol,
+  fromUnitPrice,
+  fromUsage,
+  priceLabel,
+  priceStep,
+  roundForInput,
+  toUnitPrice,
+  toUsage,
+  usageLabel,
+  usageStep,
+  type UnitSettings,
+} from "@/lib/units"
+
+interface AssistanceSettingsProps {
+  settings: AssistanceSettingsState
+  units: UnitSettings
+  onChange: (settings: AssistanceSettingsState) => void
+}
+
+type NumericField =
+  | "eligiblePct"
+  | "enrollmentPct"
+  | "lowUsageCorrelation"
+  | "adminCost"
+  | "percentOff"
+  | "lifelinePrice"
+  | "lifelineBlock"
+
+// Usage and price fields are stored in kgal and $/kgal (steps too) and shown in display units.
+const FIELD_LIMITS: Record<
+  NumericField,
+  { label: (units: UnitSettings) => string; step: string; max?: number; unit?: "usage" | "price" }
+> = {
+  eligiblePct: { label: () => "Eligible households (%)", step: "1", max: 100 },
+  enrollmentPct: { label: () => "Enrollment of eligible (%)", step: "1", max: 100 },
+  lowUsageCorrelation: { label: () => "Tilt toward low users (0–1)", step: "0.1", max: 1 },
+  adminCost: { label: (units) => `Admin cost (${currencySymbol(units)}/participant/mo)`, step: "0.5" },
+  percentOff: { label: () => "Discount (% off bill)", step: "1", max: 100 },
+  lifelinePrice: { label: (units) => `Lifeline price (${priceLabel(units)})`, step: "0.05", unit: "price" },
+  lifelineBlock: { label: (units) => `Lifeline block (${usageLabel(units)})`, step: "0.5", unit: "usage" },
+}
+
+const PROGRAM_FIELDS: NumericField[] = ["eligiblePct", "enrollmentPct", "lowUsageCorrelation", "adminCost"]
+
+const DISCOUNT_FIELDS: Record<AssistanceDiscount, NumericField[]> = {
+  percentOff: ["percentOff"],
+  baseFeeWaiver: [],
+  lifeline: ["lifelinePrice", "lifelineBlock"],
+}
+
+const inputClassName =
+  "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export default function AssistanceSettings({ settings, units, onChange }: AssistanceSettingsProps) {
+  const toDisplay = (field: NumericField) => {
+    const value = settings[field]
+    if (FIELD_LIMITS[field].unit === "usage") return roundForInput(toUsage(value, units))
+    if (FIELD_LIMITS[field].unit === "price") return roundForInput(toUnitPrice(value, units))
+    return value
+  }
+
+  const fromDisplay = (field: NumericField, value: number) => {
+    if (FIELD_LIMITS[field].unit === "usage") return fromUsage(value, units)
+    if (FIELD_LIMITS[field].unit === "price") return fromUnitPrice(value, units)
+    return value
+  }
+
+  const fieldStep = (field: NumericField) => {
+    const step = FIELD_LIMITS[field].step
+    if (FIELD_LIMITS[field].unit === "usage") return usageStep(units, Number(step))
+    if (FIELD_LIMITS[field].unit === "price") return priceStep(units, Number(step))
+    return step
+  }
+
+  const handleNumericChange = (field: NumericField, value: string) => {
+    const parsed = Number.parseFloat(value)
+    const max = FIELD_LIMITS[field].max ?? Number.POSITIVE_INFINITY
+    onChange({ ...settings, [field]: Number.isFinite(parsed) ? Math.min(Math.max(fromDisplay(field, parsed), 0), max) : 0 })
+  }
+
+  const renderField = (field: NumericField) => (
+    <div key={field}>
+      <label className="block text-sm font-medium text-slate-700 mb-2">{FIELD_LIMITS[field].label(units)}</label>
+      <input
+        type="number"
+        min={0}
+        max={FIELD_LIMITS[field].max}
+        step={fieldStep(field)}
+        value={toDisplay(field)}
+        onChange={(e) => handleNumericChange(field, e.target.value)}
+        className={inputClassName}
+      />
+    </div>
+  )
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Customer Assistance Program</CardTitle>
+        <CardDescription className="text-slate-600">Low-income discounts for enrolled households</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Model an assistance program
+        </label>
+
+        {settings.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-3">{PROGRAM_FIELDS.map(renderField)}</div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Discount type</label>
+                <select
+                  value={settings.discount}
+                  onChange={(e) => onChange({ ...settings, discount: e.target.value as AssistanceDiscount })}
+                  className={inputClassName}
+                >
+                  {(Object.keys(ASSISTANCE_DISCOUNT_LABELS) as AssistanceDiscount[]).map((discount) => (
+                    <option key={discount} value={discount}>
+                      {ASSISTANCE_DISCOUNT_LABELS[discount]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {DISCOUNT_FIELDS[settings.discount].map(renderField)}
+            </div>
+            <p className="text-xs text-slate-500">
+              Enrolled Monte Carlo households are billed the discounted schedule and respond to it. Program cost is the
+              discounts plus administration; the funding increase is the uniform rise in non-participant water bills that
+              recovers it. Freeze a baseline to see results.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { DemandModelOptions } from "@/lib/demand"
+import {
+  DEFAULT_REPRESENTATIVE_USAGES,
+  billImpactsToCsv,
+  computeBillImpacts,
+  parseUsageList,
+  type RateSchedule,
+} from "@/lib/bills"
+import {
+  formatCurrency,
+  formatCurrencyChange,
+  formatUsage,
+  fromUsage,
+  roundForInput,
+  toUsage,
+  usageLabel,
+  type UnitSettings,
+} from "@/lib/units"
+
+interface BillImpactTableProps {
+  baseline: RateSchedule | null
+  proposal: RateSchedule
+  elasticity: number
+  billSalience: number
+  model?: DemandModelOptions
+  units: UnitSettings
+}
+
+const formatPercent = (value: number | null) => {
+  if (value === null) return "—"
+  const sign = value > 0 ? "+" : ""
+  return `${sign}${value.toFixed(1)}%`
+}
+
+const changeColor = (value: number) => (value > 0.005 ? "text-red-600" : value < -0.005 ? "text-green-600" : "text-slate-500")
+
+const formatUsageList = (usages: number[], units: UnitSettings) =>
+  usages.map((usage) => roundForInput(toUsage(usage, units))).join(", ")
+
+export default function BillImpactTable({ baseline, proposal, elasticity, billSalience, model, units }: BillImpactTableProps) {
+  const [usageText, setUsageText] = useState<string>(() => formatUsageList(DEFAULT_REPRESENTATIVE_USAGES, units))
+  const [textUnits, setTextUnits] = useState<UnitSettings>(units)
+  // The list is typed in display units; re-express it when the usage unit changes.
+  if (textUnits.usage !== units.usage) {
+    setUsageText(formatUsageList(parseUsageList(usageText).map((value) => fromUsage(value, textUnits)), units))
+    setTextUnits(units)
+  }
+  const rows = computeBillImpacts({
+    usages: parseUsageList(usageText).map((value) => fromUsage(value, units)),
+    baseline: baseline ?? proposal,
+    proposal,
+    elasticity,
+    billSalience,
+    model,
+  })
+
+  const handleExport = () => {
+    const blob = new Blob([billImpactsToCsv(rows, units)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "bill-impacts.csv"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="text-slate-900">Bill Impacts</CardTitle>
+          <CardDescription className="text-slate-600">Representative households, baseline vs proposed rates</CardDescription>
+        </div>
+        <Button
+          onClick={handleExport}
+          variant="outline"
+          size="sm"
+          disabled={rows.length === 0}
+          className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white"
+        >
+          <Download className="w-4 h-4 mr-1" />
+          CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Monthly usage levels ({usageLabel(units)})</label>
+          <input
+            type="text"
+            value={usageText}
+            onChange={(e) => setUsageText(e.target.value)}
+            className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-xs text-slate-500">Enter one or more usage levels, e.g. 4, 8, 15.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="text-left font-medium py-1">{usageLabel(units)}</th>
+                  <th className="text-right font-medium py-1">Baseline</th>
+                  <th className="text-right font-medium py-1">Proposed</th>
+                  <th className="text-right font-medium py-1">Change</th>
+                  <th className="text-right font-medium py-1 pl-3 border-l border-slate-200">After response</th>
+                  <th className="text-right font-medium py-1">Bill</th>
+                  <th className="text-right font-medium py-1">Change</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-slate-900">
+                {rows.map((row) => (
+                  <tr key={row.usage} className="border-t border-slate-100">
+                    <td className="py-1">{roundForInput(toUsage(row.usage, units))}</td>
+                    <td className="text-right">{formatCurrency(row.baselineBill, units, 2)}</td>
+                    <td className="text-right">{formatCurrency(row.proposedBill, units, 2)}</td>
+                    <td className={`text-right ${changeColor(row.change)}`}>
+                      {formatCurrencyChange(row.change, units)} ({formatPercent(row.percentChange)})
+                    </td>
+                    <td className="text-right pl-3 border-l border-slate-200">{formatUsage(row.respondedUsage, units)}</td>
+                    <td className="text-right">{formatCurrency(row.respondedBill, units, 2)}</td>
+                    <td className={`text-right ${changeColor(row.respondedChange)}`}>
+                      {formatCurrencyChange(row.respondedChange, units)} ({formatPercent(row.respondedPercentChange)})
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-slate-500">
+          {baseline
+            ? "Baseline = rates frozen at Set Baseline. “After response” lets each household re-optimize via the elasticity model."
+            : "Set Baseline to freeze today’s rates for comparison; until then both columns use the current rates."}
+          {model?.meters?.enabled && " Fixed charges are the meter-mix average."}
+          {model?.sewer?.enabled && " Bills include sewer charges."}
+          {model?.surcharges?.enabled && " Bills include taxes and surcharges."}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
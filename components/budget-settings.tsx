@@ -0,0 +1,80 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { typicalBudget, type BudgetSettings as BudgetSettingsState } from "@/lib/budget"
+import { formatUsage, fromUsage, roundForInput, toUsage, usageLabel, usageStep, type UnitSettings } from "@/lib/units"
+
+interface BudgetSettingsProps {
+  settings: BudgetSettingsState
+  units: UnitSettings
+  onChange: (settings: BudgetSettingsState) => void
+}
+
+type NumericField = "indoorAllotment" | "meanPersons" | "outdoorAllotment" | "meanArea" | "et"
+
+// The indoor allotment is stored in kgal/person and entered in display units.
+const NUMERIC_FIELDS: { field: NumericField; label: string; step: string; min: number; perUsage?: boolean }[] = [
+  { field: "indoorAllotment", label: "Indoor allotment", step: "0.05", min: 0, perUsage: true },
+  { field: "meanPersons", label: "Mean household size", step: "0.1", min: 1 },
+  { field: "outdoorAllotment", label: "Outdoor allotment (ETAF)", step: "0.05", min: 0 },
+  { field: "meanArea", label: "Mean irrigable area (sq ft)", step: "100", min: 0 },
+  { field: "et", label: "Monthly ET (in)", step: "0.1", min: 0 },
+]
+
+const inputClassName =
+  "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export default function BudgetSettings({ settings, units, onChange }: BudgetSettingsProps) {
+  const handleNumericChange = (field: NumericField, min: number, value: string, perUsage = false) => {
+    const parsed = Number.parseFloat(value)
+    const next = perUsage ? fromUsage(parsed, units) : parsed
+    onChange({ ...settings, [field]: Number.isFinite(next) ? Math.max(next, min) : min })
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Water-Budget Rates</CardTitle>
+        <CardDescription className="text-slate-600">Tier breaks as a share of each household&apos;s water budget</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Use budget-based tiers
+        </label>
+
+        {settings.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              {NUMERIC_FIELDS.map(({ field, label, step, min, perUsage }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    {perUsage ? `${label} (${usageLabel(units)}/person)` : label}
+                  </label>
+                  <input
+                    type="number"
+                    min={min}
+                    step={perUsage ? usageStep(units, Number(step)) : step}
+                    value={perUsage ? roundForInput(toUsage(settings[field], units)) : settings[field]}
+                    onChange={(e) => handleNumericChange(field, min, e.target.value, perUsage)}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              Budget = indoor allotment × persons + ETAF × area × ET × 0.623 gal/sq ft·in. Household size and area are drawn per
+              simulated household around these means; the typical budget is {formatUsage(typicalBudget(settings), units)}. Tier
+              breaks in Price Settings are now % of budget.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
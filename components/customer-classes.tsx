@@ -0,0 +1,229 @@
+"use client"
+
+import { Trash2, Plus } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { TierDefinition } from "@/lib/demand"
+import type { CustomerClass } from "@/lib/classes"
+import {
+  currencySymbol,
+  fromUnitPrice,
+  fromUsage,
+  priceLabel,
+  priceStep,
+  roundForInput,
+  toDisplayTiers,
+  toUsage,
+  usageLabel,
+  usageStep,
+  type UnitSettings,
+} from "@/lib/units"
+
+interface CustomerClassesProps {
+  enabled: boolean
+  classes: CustomerClass[]
+  units: UnitSettings
+  onEnabledChange: (enabled: boolean) => void
+  onClassesChange: (classes: CustomerClass[]) => void
+}
+
+type NumericField = "connections" | "typicalUse" | "usageVar" | "elasticityMean" | "baseFee"
+
+const NUMERIC_FIELDS: { field: NumericField; label: (units: UnitSettings) => string; step: string }[] = [
+  { field: "connections", label: () => "Connections", step: "1" },
+  { field: "typicalUse", label: (units) => `Typical use (${usageLabel(units)})`, step: "0.5" },
+  { field: "usageVar", label: () => "Usage spread", step: "0.05" },
+  { field: "elasticityMean", label: () => "Elasticity (ε)", step: "0.01" },
+  { field: "baseFee", label: (units) => `Base fee (${currencySymbol(units)})`, step: "0.01" },
+]
+
+const inputClassName =
+  "w-full px-2 py-1 bg-white border border-slate-300 rounded text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export default function CustomerClasses({ enabled, classes, units, onEnabledChange, onClassesChange }: CustomerClassesProps) {
+  const updateClass = (id: string, update: (cls: CustomerClass) => CustomerClass) => {
+    onClassesChange(classes.map((cls) => (cls.id === id ? update(cls) : cls)))
+  }
+
+  // Typical use and tiers are stored in kgal and $/kgal and entered in display units.
+  const handleNumericChange = (id: string, field: NumericField, value: string) => {
+    const parsed = Number.parseFloat(value)
+    const next = field === "typicalUse" ? fromUsage(parsed, units) : parsed
+    updateClass(id, (cls) => ({ ...cls, [field]: Number.isFinite(next) ? next : 0 }))
+  }
+
+  const handleTierChange = (id: string, tierIndex: number, field: "upper" | "price", value: string) => {
+    updateClass(id, (cls) => {
+      const tiers = cls.tiers.map((tier) => ({ ...tier }))
+      const tier = tiers[tierIndex]
+      if (field === "price") {
+        const parsed = Number.parseFloat(value)
+        tier.price = Number.isFinite(parsed) ? fromUnitPrice(parsed, units) : 0
+      } else {
+        const parsed = Number.parseFloat(value)
+        tier.upper = value.trim() === "" || !Number.isFinite(parsed) ? null : fromUsage(parsed, units)
+        if (tiers[tierIndex + 1]) {
+          tiers[tierIndex + 1].lower = tier.upper ?? tier.lower
+        }
+      }
+      return { ...cls, tiers }
+    })
+  }
+
+  const handleAddTier = (id: string) => {
+    updateClass(id, (cls) => {
+      const last = cls.tiers[cls.tiers.length - 1]
+      if (!last) return { ...cls, tiers: [{ lower: 0, upper: null, price: 0 }] }
+      const split = last.upper ?? last.lower + 10
+      const tiers: TierDefinition[] = [
+        ...cls.tiers.slice(0, -1),
+        { ...last, upper: split },
+        { lower: split, upper: null, price: Number((last.price + 1).toFixed(2)) },
+      ]
+      return { ...cls, tiers }
+    })
+  }
+
+  const handleRemoveTier = (id: string) => {
+    updateClass(id, (cls) => {
+      if (cls.tiers.length <= 1) return cls
+      const tiers = cls.tiers.slice(0, -1).map((tier) => ({ ...tier }))
+      tiers[tiers.length - 1].upper = null
+      return { ...cls, tiers }
+    })
+  }
+
+  const handleAddClass = () => {
+    const newId = `class-${Date.now()}`
+    onClassesChange([
+      ...classes,
+      {
+        id: newId,
+        name: `Class ${classes.length + 2}`,
+        connections: 100,
+        typicalUse: 10,
+        usageVar: 0.4,
+        elasticityMean: -0.15,
+        baseFee: 25,
+        tiers: [{ lower: 0, upper: null, price: 4 }],
+      },
+    ])
+  }
+
+  const handleDeleteClass = (id: string) => {
+    onClassesChange(classes.filter((cls) => cls.id !== id))
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Customer Classes</CardTitle>
+        <CardDescription className="text-slate-600">
+          Settings above describe the residential class; add others with their own schedules
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="accent-blue-600"
+          />
+          Model additional customer classes
+        </label>
+
+        {enabled && (
+          <>
+            {classes.map((cls) => (
+              <div key={cls.id} className="p-3 bg-slate-50 rounded border border-slate-200 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={cls.name}
+                    onChange={(e) => updateClass(cls.id, (current) => ({ ...current, name: e.target.value }))}
+                    className={`${inputClassName} font-medium`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteClass(cls.id)}
+                    className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                  {NUMERIC_FIELDS.map(({ field, label, step }) => (
+                    <div key={field}>
+                      <label className="text-xs text-slate-600 mb-1 block">{label(units)}</label>
+                      <input
+                        type="number"
+                        step={field === "typicalUse" ? usageStep(units, Number(step)) : step}
+                        value={field === "typicalUse" ? roundForInput(toUsage(cls[field], units)) : cls[field]}
+                        onChange={(e) => handleNumericChange(cls.id, field, e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-1">
+                  <div className="grid grid-cols-3 gap-2 text-xs text-slate-600 font-medium">
+                    <div>Lower ({usageLabel(units)})</div>
+                    <div>Upper ({usageLabel(units)}/∞)</div>
+                    <div>Price ({priceLabel(units)})</div>
+                  </div>
+                  {toDisplayTiers(cls.tiers, units).map((tier, idx) => (
+                    <div key={`${cls.id}-tier-${idx}`} className="grid grid-cols-3 gap-2">
+                      <span className="px-2 py-1 text-sm font-mono text-slate-500">{tier.lower}</span>
+                      <input
+                        type="number"
+                        value={tier.upper ?? ""}
+                        placeholder="∞"
+                        disabled={idx === cls.tiers.length - 1}
+                        onChange={(e) => handleTierChange(cls.id, idx, "upper", e.target.value)}
+                        className={`${inputClassName} disabled:bg-slate-100`}
+                      />
+                      <input
+                        type="number"
+                        step={priceStep(units)}
+                        value={tier.price}
+                        onChange={(e) => handleTierChange(cls.id, idx, "price", e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                  ))}
+                  <div className="flex gap-2 pt-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleAddTier(cls.id)}
+                      className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white"
+                    >
+                      <Plus className="w-3 h-3 mr-1" />
+                      Tier
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={cls.tiers.length <= 1}
+                      onClick={() => handleRemoveTier(cls.id)}
+                      className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white disabled:opacity-50"
+                    >
+                      Remove last tier
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <Button onClick={handleAddClass} variant="outline" className="w-full border-slate-300 text-slate-700 hover:bg-slate-50 bg-white">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Class
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
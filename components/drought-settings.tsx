@@ -0,0 +1,169 @@
+"use client"
+
+import { Trash2, Plus } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  DROUGHT_SURCHARGE_LABELS,
+  type DroughtSettings as DroughtSettingsState,
+  type DroughtStage,
+  type DroughtSurchargeKind,
+} from "@/lib/drought"
+import { fromUnitPrice, priceLabel, priceStep, roundForInput, toUnitPrice, type UnitSettings } from "@/lib/units"
+
+interface DroughtSettingsProps {
+  settings: DroughtSettingsState
+  units: UnitSettings
+  onChange: (settings: DroughtSettingsState) => void
+}
+
+type NumericField = "curtailmentPct" | "surcharge" | "breakFactor"
+
+const inputClassName =
+  "w-full px-2 py-1 bg-white border border-slate-300 rounded text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export default function DroughtSettings({ settings, units, onChange }: DroughtSettingsProps) {
+  const updateStage = (id: string, update: (stage: DroughtStage) => DroughtStage) => {
+    onChange({ ...settings, stages: settings.stages.map((stage) => (stage.id === id ? update(stage) : stage)) })
+  }
+
+  const handleNumericChange = (id: string, field: NumericField, value: string, convert = (parsed: number) => parsed) => {
+    const parsed = convert(Number.parseFloat(value))
+    updateStage(id, (stage) => ({ ...stage, [field]: Number.isFinite(parsed) ? Math.max(parsed, 0) : 0 }))
+  }
+
+  const handleAddStage = () => {
+    const last = settings.stages[settings.stages.length - 1]
+    onChange({
+      ...settings,
+      stages: [
+        ...settings.stages,
+        {
+          id: `stage-${Date.now()}`,
+          name: `Stage ${settings.stages.length + 1}`,
+          curtailmentPct: Math.min((last?.curtailmentPct ?? 0) + 10, 100),
+          surchargeKind: last?.surchargeKind ?? "percent",
+          surcharge: last?.surcharge ?? 10,
+          breakFactor: last?.breakFactor ?? 1,
+        },
+      ],
+    })
+  }
+
+  const handleDeleteStage = (id: string) => {
+    onChange({ ...settings, stages: settings.stages.filter((stage) => stage.id !== id) })
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Drought Stages</CardTitle>
+        <CardDescription className="text-slate-600">Mandatory curtailment with surcharges and tightened tiers</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Model drought stages
+        </label>
+
+        {settings.enabled && (
+          <>
+            {settings.stages.map((stage) => (
+              <div key={stage.id} className="p-3 bg-slate-50 rounded border border-slate-200 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={stage.name}
+                    onChange={(e) => updateStage(stage.id, (current) => ({ ...current, name: e.target.value }))}
+                    className={`${inputClassName} font-medium`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteStage(stage.id)}
+                    className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <div>
+                    <label className="text-xs text-slate-600 mb-1 block">Curtailment (%)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="1"
+                      value={stage.curtailmentPct}
+                      onChange={(e) => handleNumericChange(stage.id, "curtailmentPct", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-slate-600 mb-1 block">Surcharge type</label>
+                    <select
+                      value={stage.surchargeKind}
+                      onChange={(e) =>
+                        updateStage(stage.id, (current) => ({ ...current, surchargeKind: e.target.value as DroughtSurchargeKind }))
+                      }
+                      className={inputClassName}
+                    >
+                      {(Object.keys(DROUGHT_SURCHARGE_LABELS) as DroughtSurchargeKind[]).map((kind) => (
+                        <option key={kind} value={kind}>
+                          {kind === "perKgal" ? priceLabel(units) : DROUGHT_SURCHARGE_LABELS[kind]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-xs text-slate-600 mb-1 block">
+                      Surcharge ({stage.surchargeKind === "percent" ? "%" : priceLabel(units)})
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={stage.surchargeKind === "percent" ? "1" : priceStep(units, 0.05)}
+                      value={stage.surchargeKind === "percent" ? stage.surcharge : roundForInput(toUnitPrice(stage.surcharge, units))}
+                      onChange={(e) =>
+                        handleNumericChange(stage.id, "surcharge", e.target.value, (parsed) =>
+                          stage.surchargeKind === "percent" ? parsed : fromUnitPrice(parsed, units),
+                        )
+                      }
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-slate-600 mb-1 block">Tier break factor</label>
+                    <input
+                      type="number"
+                      min={0.1}
+                      max={1}
+                      step="0.05"
+                      value={stage.breakFactor}
+                      onChange={(e) => handleNumericChange(stage.id, "breakFactor", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <Button onClick={handleAddStage} variant="outline" className="w-full border-slate-300 text-slate-700 hover:bg-slate-50 bg-white">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Stage
+            </Button>
+            <p className="text-xs text-slate-500">
+              Curtailment cuts each household&apos;s baseline before the price response; a break factor below 1 pulls every
+              tier break down (0.8 = breaks at 80%).
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
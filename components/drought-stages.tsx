@@ -0,0 +1,128 @@
+"use client"
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { DroughtResult } from "@/lib/drought"
+import {
+  formatCurrency,
+  formatCurrencyChange,
+  formatCurrencyCompact,
+  formatVolume,
+  toVolume,
+  volumeLabel,
+  type UnitSettings,
+} from "@/lib/units"
+
+interface DroughtStagesProps {
+  result: DroughtResult | null
+  /**
+   * Inputs have changed since `result` was run
+   */
+  stale: boolean
+  units: UnitSettings
+  onRun: () => void
+}
+
+export default function DroughtStages({ result, stale, units, onRun }: DroughtStagesProps) {
+  const chartData = (result?.stages ?? []).map((stage) => ({
+    label: stage.name,
+    lost: Number(stage.revenueLost.toFixed(0)),
+    recovered: Number(stage.revenueRecovered.toFixed(0)),
+  }))
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between pb-3">
+        <div>
+          <CardTitle className="text-slate-900">Drought Stage Impacts</CardTitle>
+          <CardDescription className="text-slate-600">
+            Revenue lost to curtailment vs recovered by surcharges, per representative month
+          </CardDescription>
+        </div>
+        {result && (
+          <div className="text-right text-sm">
+            <div className="font-mono text-slate-900">Normal {formatVolume(result.normalMG, units)}</div>
+            <div className="font-mono text-slate-900">{formatCurrency(result.normalRevenue, units)}</div>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(!result || stale) && (
+          <div className="flex items-center justify-between gap-3">
+            <p className={`text-xs ${stale ? "text-amber-700" : "text-slate-500"}`}>
+              {stale ? "Inputs have changed since this run." : "Runs the population through each drought stage."}
+            </p>
+            <Button onClick={onRun} size="sm">
+              {result ? "Re-run" : "Run"}
+            </Button>
+          </div>
+        )}
+        {result && (
+          <>
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="label" stroke="#64748b" />
+                <YAxis stroke="#64748b" tickFormatter={(value) => formatCurrencyCompact(Number(value), units)} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: "#f8fafc", border: "1px solid #e2e8f0", borderRadius: "6px" }}
+                  labelStyle={{ color: "#0f172a" }}
+                  formatter={(value, name) => [formatCurrency(Number(value), units), name]}
+                />
+                <Legend />
+                <Bar dataKey="lost" name="Revenue lost" fill="#F29494" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="recovered" name="Recovered by surcharge" fill="#6DC978" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="text-left font-medium py-1">Stage</th>
+                    <th className="text-right font-medium py-1">{volumeLabel(units)}</th>
+                    <th className="text-right font-medium py-1">Revenue</th>
+                    <th className="text-right font-medium py-1">Net change</th>
+                    <th className="text-right font-medium py-1">Reduction (target)</th>
+                    <th className="text-right font-medium py-1">Target</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-slate-900">
+                  {result.stages.map((stage) => (
+                    <tr key={stage.id} className="border-t border-slate-100">
+                      <td className="py-1 font-sans">{stage.name}</td>
+                      <td className="text-right">{toVolume(stage.usageMG, units).toFixed(2)}</td>
+                      <td className="text-right">{formatCurrency(stage.revenue, units)}</td>
+                      <td className={`text-right ${stage.netRevenueChange < 0 ? "text-red-600" : "text-green-600"}`}>
+                        {formatCurrencyChange(stage.netRevenueChange, units, 0)}
+                      </td>
+                      <td className="text-right">
+                        {stage.achievedReductionPct.toFixed(1)}% ({stage.curtailmentPct.toFixed(0)}%)
+                      </td>
+                      <td className={`text-right font-sans ${stage.targetMet ? "text-green-700" : "text-amber-700"}`}>
+                        {stage.targetMet ? "Met" : "Missed"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="text-xs text-slate-500">
+              Lost = normal revenue minus curtailed use billed on today&apos;s rates; recovered = what the stage surcharge and tier
+              breaks win back from the same curtailed customers. Reduction includes the price response to the surcharge.
+            </p>
+            {result.warnings.length > 0 && (
+              <ul className="list-disc pl-4 text-xs text-amber-800">
+                {result.warnings.slice(0, 4).map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
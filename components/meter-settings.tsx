@@ -0,0 +1,115 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  AWWA_METER_RATIOS,
+  DEFAULT_METER_SIZES,
+  meterCharge,
+  type MeterSettings as MeterSettingsState,
+  type MeterSize,
+} from "@/lib/meters"
+import { currencySymbol, type UnitSettings } from "@/lib/units"
+
+interface MeterSettingsProps {
+  settings: MeterSettingsState
+  baseFee: number
+  units: UnitSettings
+  onChange: (settings: MeterSettingsState) => void
+}
+
+const inputClassName =
+  "w-full px-2 py-1 bg-white border border-slate-300 rounded text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export default function MeterSettings({ settings, baseFee, units, onChange }: MeterSettingsProps) {
+  const totalConnections = settings.sizes.reduce((sum, size) => sum + size.connections, 0)
+
+  const updateSize = (id: string, update: (size: MeterSize) => MeterSize) => {
+    onChange({ ...settings, sizes: settings.sizes.map((size) => (size.id === id ? update(size) : size)) })
+  }
+
+  const readNonNegative = (value: string) => {
+    const parsed = Number.parseFloat(value)
+    return Number.isFinite(parsed) ? Math.max(parsed, 0) : 0
+  }
+
+  const handleReset = () => {
+    onChange({ ...settings, sizes: DEFAULT_METER_SIZES })
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Meter-Size Charges</CardTitle>
+        <CardDescription className="text-slate-600">Fixed charges scaled by AWWA meter capacity ratios</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Charge by meter size
+        </label>
+
+        {settings.enabled && (
+          <>
+            <div className="space-y-1">
+              <div className="grid grid-cols-4 gap-2 text-xs text-slate-600 font-medium">
+                <div>Meter</div>
+                <div>Connections</div>
+                <div>Ratio</div>
+                <div>Charge ({currencySymbol(units)}/mo)</div>
+              </div>
+              {settings.sizes.map((size) => (
+                <div key={size.id} className="grid grid-cols-4 gap-2 items-center">
+                  <span className="px-2 py-1 text-sm font-mono text-slate-700">{size.label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="1"
+                    value={size.connections}
+                    onChange={(e) => updateSize(size.id, (current) => ({ ...current, connections: readNonNegative(e.target.value) }))}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={size.ratio}
+                    title={`AWWA ratio ${AWWA_METER_RATIOS[size.id] ?? "—"}`}
+                    onChange={(e) => updateSize(size.id, (current) => ({ ...current, ratio: readNonNegative(e.target.value) }))}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={size.charge ?? ""}
+                    placeholder={meterCharge({ ...size, charge: null }, baseFee).toFixed(2)}
+                    onChange={(e) =>
+                      updateSize(size.id, (current) => ({
+                        ...current,
+                        charge: e.target.value.trim() === "" ? null : readNonNegative(e.target.value),
+                      }))
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              {totalConnections.toFixed(0)} connections in the table. Leave a charge blank to bill base fee × ratio; simulated
+              households get meters in this mix, larger meters going mostly to heavier users.
+            </p>
+            <Button onClick={handleReset} variant="outline" size="sm" className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white">
+              Reset meter table
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
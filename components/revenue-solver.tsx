@@ -0,0 +1,168 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { TierDefinition } from "@/lib/demand"
+import type { MonteCarloParams } from "@/lib/montecarlo"
+import { solveRevenueRequirement, type SolverMode, type SolverResult, type UsageTarget } from "@/lib/solver"
+import {
+  currencySymbol,
+  formatCurrency,
+  formatPrice,
+  formatVolume,
+  fromVolume,
+  roundForInput,
+  toDisplayTiers,
+  toVolume,
+  usageLabel,
+  volumeLabel,
+  type UnitSettings,
+} from "@/lib/units"
+
+interface RevenueSolverProps {
+  params: MonteCarloParams | null
+  currentRevenue: number
+  units: UnitSettings
+  onApply: (tiers: TierDefinition[], baseFee: number) => void
+}
+
+type TargetKind = UsageTarget["kind"]
+
+const MODE_LABELS: Record<SolverMode, string> = {
+  scale: "Uniform scale (all charges)",
+  baseFee: "Base fee only",
+  tiers: "Tier prices",
+}
+
+const inputClassName =
+  "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export default function RevenueSolver({ params, currentRevenue, units, onApply }: RevenueSolverProps) {
+  const [requirement, setRequirement] = useState<number>(Math.round(currentRevenue * 1.1))
+  const [mode, setMode] = useState<SolverMode>("scale")
+  const [targetKind, setTargetKind] = useState<TargetKind>("none")
+  // MG for a system target, % for conservation
+  const [targetValue, setTargetValue] = useState<number>(5)
+  const [result, setResult] = useState<SolverResult | null>(null)
+
+  const handleSolve = () => {
+    if (!params) return
+    const usageTarget: UsageTarget =
+      targetKind === "mg"
+        ? { kind: "mg", value: targetValue }
+        : targetKind === "conservation"
+          ? { kind: "conservation", percent: targetValue }
+          : { kind: "none" }
+    setResult(solveRevenueRequirement({ base: params, revenueRequirement: requirement, mode, usageTarget }))
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Revenue Requirement Solver</CardTitle>
+        <CardDescription className="text-slate-600">Back-solve rates to hit a monthly revenue target</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Revenue requirement ({currencySymbol(units)}/mo)</label>
+            <input
+              type="number"
+              step="100"
+              value={requirement}
+              onChange={(e) => setRequirement(Number.parseFloat(e.target.value) || 0)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Solve for</label>
+            <select value={mode} onChange={(e) => setMode(e.target.value as SolverMode)} className={inputClassName}>
+              {(Object.keys(MODE_LABELS) as SolverMode[]).map((key) => (
+                <option key={key} value={key}>
+                  {MODE_LABELS[key]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {mode === "tiers" && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Usage target</label>
+              <select value={targetKind} onChange={(e) => setTargetKind(e.target.value as TargetKind)} className={inputClassName}>
+                <option value="none">None (scale volumetric only)</option>
+                <option value="mg">System {volumeLabel(units)}/mo</option>
+                <option value="conservation">Conservation % vs baseline</option>
+              </select>
+            </div>
+            {targetKind !== "none" && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  {targetKind === "mg" ? `Target ${volumeLabel(units)}/mo` : "Target reduction (%)"}
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={targetKind === "mg" ? roundForInput(toVolume(targetValue, units)) : targetValue}
+                  onChange={(e) => {
+                    const parsed = Number.parseFloat(e.target.value) || 0
+                    setTargetValue(targetKind === "mg" ? fromVolume(parsed, units) : parsed)
+                  }}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <Button onClick={handleSolve} disabled={!params} className="w-full">
+          Solve
+        </Button>
+        {!params && <p className="text-xs text-slate-500">Set Baseline to solve against the Monte Carlo population.</p>}
+
+        {result && (
+          <div className="space-y-2 border-t border-slate-200 pt-3 text-sm">
+            <div className="grid grid-cols-2 gap-2">
+              <span className="text-slate-600">Solved revenue</span>
+              <span className="font-mono text-slate-900">
+                {formatCurrency(result.revenue, units)} ({result.residual >= 0 ? "+" : ""}
+                {result.residual.toFixed(2)})
+              </span>
+              <span className="text-slate-600">Water use</span>
+              <span className="font-mono text-slate-900">
+                {formatVolume(result.usageMG, units)}
+                {result.targetMG !== null ? ` (target ${toVolume(result.targetMG, units).toFixed(2)})` : ""}
+              </span>
+              <span className="text-slate-600">Base fee</span>
+              <span className="font-mono text-slate-900">{formatCurrency(result.baseFee, units, 2)}</span>
+              {toDisplayTiers(result.tiers, units, !params?.budget?.enabled).map((tier, idx) => (
+                <div key={`solved-tier-${idx}`} className="contents">
+                  <span className="text-slate-600">
+                    Tier {idx + 1} ({tier.lower}–{tier.upper ?? "∞"} {params?.budget?.enabled ? "% of budget" : usageLabel(units)})
+                  </span>
+                  <span className="font-mono text-slate-900">{formatPrice(result.tiers[idx].price, units)}</span>
+                </div>
+              ))}
+              <span className="text-slate-600">Iterations / tolerance</span>
+              <span className="font-mono text-slate-900">
+                {result.iterations} / ±{formatCurrency(result.tolerance, units, 2)}
+              </span>
+            </div>
+            <p className={`text-xs ${result.converged ? "text-green-700" : "text-amber-800"}`}>
+              {result.converged ? "Converged within tolerance." : result.message ?? "Did not converge within the iteration limit."}
+            </p>
+            <Button
+              onClick={() => onApply(result.tiers, result.baseFee)}
+              variant="outline"
+              className="w-full border-slate-300 text-slate-700 hover:bg-slate-50 bg-white"
+            >
+              Apply solved rates
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Download, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { ScenarioState } from "@/lib/scenario"
+import {
+  buildScenarioFile,
+  parseScenarioFile,
+  serializeScenarioFile,
+  type ScenarioFileParseResult,
+  type ScenarioResultsSummary,
+} from "@/lib/fileformat"
+
+interface ScenarioFileControlsProps {
+  scenario: ScenarioState
+  results: ScenarioResultsSummary
+  onImport: (scenario: ScenarioState) => void
+}
+
+export default function ScenarioFileControls({ scenario, results, onImport }: ScenarioFileControlsProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [status, setStatus] = useState<string>("")
+
+  const handleExport = () => {
+    const file = buildScenarioFile(scenario, results)
+    const blob = new Blob([serializeScenarioFile(file)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `water-rate-scenario-${file.exportedAt.slice(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+    setErrors([])
+    setStatus("Scenario exported")
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    let parsed: ScenarioFileParseResult
+    try {
+      parsed = parseScenarioFile(await file.text())
+    } catch {
+      parsed = { ok: false, errors: [`Could not read ${file.name}.`] }
+    }
+    if (!parsed.ok) {
+      setErrors(parsed.errors)
+      setStatus("")
+      return
+    }
+    onImport(parsed.scenario)
+    setErrors([])
+    setStatus(
+      parsed.migratedFrom !== null ? `Imported (migrated from version ${parsed.migratedFrom})` : `Imported ${file.name}`,
+    )
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-2">
+        {status && <span className="text-xs text-slate-500">{status}</span>}
+        <Button onClick={handleExport} variant="outline" className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white">
+          <Download className="w-4 h-4 mr-2" />
+          Export JSON
+        </Button>
+        <Button
+          onClick={() => inputRef.current?.click()}
+          variant="outline"
+          className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Import JSON
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            void handleFile(e.target.files?.[0])
+            e.target.value = ""
+          }}
+        />
+      </div>
+      {errors.length > 0 && (
+        <ul className="max-w-md rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700 list-disc pl-6">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Check, Copy, FolderOpen, Pencil, Save, Trash2, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { ScenarioState } from "@/lib/scenario"
+import {
+  addScenario,
+  deleteScenario,
+  duplicateScenario,
+  loadScenarioLibrary,
+  overwriteScenario,
+  persistScenarioLibrary,
+  renameScenario,
+  type SavedScenario,
+} from "@/lib/library"
+import { formatCurrency } from "@/lib/units"
+
+interface ScenarioLibraryProps {
+  scenario: ScenarioState
+  onLoad: (scenario: ScenarioState) => void
+}
+
+const inputClassName =
+  "w-full px-2 py-1 bg-white border border-slate-300 rounded text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+const formatTimestamp = (iso: string) => {
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime()) ? "" : date.toLocaleString()
+}
+
+export default function ScenarioLibrary({ scenario, onLoad }: ScenarioLibraryProps) {
+  const [entries, setEntries] = useState<SavedScenario[]>([])
+  const [loaded, setLoaded] = useState<boolean>(false)
+  const [name, setName] = useState<string>("")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState<string>("")
+  const [storageMessage, setStorageMessage] = useState<string>("")
+
+  useEffect(() => {
+    setEntries(loadScenarioLibrary())
+    setLoaded(true)
+  }, [])
+
+  const commit = (next: SavedScenario[]) => {
+    setEntries(next)
+    if (loaded) {
+      setStorageMessage(persistScenarioLibrary(next) ? "" : "Browser storage is unavailable; changes last until reload.")
+    }
+  }
+
+  const handleSave = () => {
+    commit(addScenario(entries, name, scenario))
+    setName("")
+  }
+
+  const startRename = (entry: SavedScenario) => {
+    setEditingId(entry.id)
+    setEditingName(entry.name)
+  }
+
+  const finishRename = () => {
+    if (editingId) {
+      commit(renameScenario(entries, editingId, editingName))
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Scenario Library</CardTitle>
+        <CardDescription className="text-slate-600">Named rate structures saved in this browser</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            placeholder={`Scenario ${entries.length + 1}`}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave()
+            }}
+            className={inputClassName}
+          />
+          <Button onClick={handleSave} disabled={!loaded}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-xs text-slate-500">No saved scenarios yet.</p>
+        ) : (
+          <ul className="space-y-2 max-h-72 overflow-y-auto">
+            {entries.map((entry) => (
+              <li key={entry.id} className="p-2 bg-slate-50 rounded border border-slate-200">
+                <div className="flex items-center gap-2">
+                  {editingId === entry.id ? (
+                    <>
+                      <input
+                        type="text"
+                        value={editingName}
+                        autoFocus
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") finishRename()
+                          if (e.key === "Escape") setEditingId(null)
+                        }}
+                        className={inputClassName}
+                      />
+                      <Button variant="ghost" size="sm" onClick={finishRename} title="Save name">
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} title="Cancel">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-slate-800 truncate">{entry.name}</p>
+                        <p className="text-[10px] text-slate-500">
+                          {entry.scenario.tiers.length} tiers · {formatCurrency(entry.scenario.baseFee, entry.scenario.units, 2)} base ·{" "}
+                          {entry.scenario.anchor ? `seed ${entry.scenario.seed}` : "no baseline"} · {formatTimestamp(entry.updatedAt)}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => onLoad(entry.scenario)} title="Load into simulator">
+                        <FolderOpen className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => commit(overwriteScenario(entries, entry.id, scenario))}
+                        title="Overwrite with current inputs"
+                      >
+                        <Save className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => startRename(entry)} title="Rename">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => commit(duplicateScenario(entries, entry.id))} title="Duplicate">
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => commit(deleteScenario(entries, entry.id))}
+                        title="Delete"
+                        className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {storageMessage && <p className="text-xs text-amber-800">{storageMessage}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { SeasonalResult } from "@/lib/seasonal"
+import { formatCurrency, formatCurrencyCompact, formatVolume, toVolume, volumeLabel, type UnitSettings } from "@/lib/units"
+
+interface SeasonalBreakdownProps {
+  result: SeasonalResult | null
+  /**
+   * Inputs have changed since `result` was run
+   */
+  stale: boolean
+  units: UnitSettings
+  onRun: () => void
+}
+
+export default function SeasonalBreakdown({ result, stale, units, onRun }: SeasonalBreakdownProps) {
+  const chartData = (result?.months ?? []).map((month) => ({
+    label: month.label,
+    mg: Number(toVolume(month.usageMG, units).toFixed(2)),
+    revenue: Number(month.revenue.toFixed(0)),
+    multiplier: month.multiplier,
+  }))
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between pb-3">
+        <div>
+          <CardTitle className="text-slate-900">Seasonal Breakdown</CardTitle>
+          <CardDescription className="text-slate-600">Monthly water use and revenue across the 12-month profile</CardDescription>
+        </div>
+        {result && (
+          <div className="text-right">
+            <div className="text-lg font-bold text-[rgba(146,151,241,1)]">{formatVolume(result.annualMG, units, 1)}/yr</div>
+            <div className="text-lg font-bold text-[rgba(108,201,119,1)]">{formatCurrency(result.annualRevenue, units)}/yr</div>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {(!result || stale) && (
+          <div className="flex items-center justify-between gap-3">
+            <p className={`text-xs ${stale ? "text-amber-700" : "text-slate-500"}`}>
+              {stale ? "Inputs have changed since this run." : "Runs the population through each month of the profile."}
+            </p>
+            <Button onClick={onRun} size="sm">
+              {result ? "Re-run" : "Run"}
+            </Button>
+          </div>
+        )}
+        {result && (
+          <>
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="label" stroke="#64748b" />
+                <YAxis yAxisId="mg" stroke="#64748b" tickFormatter={(value) => `${value}`} />
+                <YAxis
+                  yAxisId="revenue"
+                  orientation="right"
+                  stroke="#64748b"
+                  tickFormatter={(value) => formatCurrencyCompact(Number(value), units)}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: "#f8fafc", border: "1px solid #e2e8f0", borderRadius: "6px" }}
+                  labelStyle={{ color: "#0f172a" }}
+                  formatter={(value, name, props) => {
+                    if (name === "Revenue") return [formatCurrency(Number(value), units), name]
+                    return [`${Number(value).toFixed(2)} ${volumeLabel(units)} (×${props?.payload?.multiplier?.toFixed(2)})`, name]
+                  }}
+                />
+                <Legend />
+                <Bar yAxisId="mg" dataKey="mg" name="Water use" fill="#9498F2" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="revenue" dataKey="revenue" name="Revenue" fill="#6DC978" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+            {result.warnings.length > 0 && (
+              <ul className="list-disc pl-4 text-xs text-amber-800">
+                {result.warnings.slice(0, 4).map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { DEFAULT_SEASONAL_MULTIPLIERS, DEFAULT_SUMMER_MONTHS, MONTH_LABELS } from "@/lib/seasonal"
+
+interface SeasonalSettingsProps {
+  enabled: boolean
+  multipliers: number[]
+  summerMonths: boolean[]
+  summerPriceFactor: number
+  onEnabledChange: (enabled: boolean) => void
+  onMultipliersChange: (multipliers: number[]) => void
+  onSummerMonthsChange: (summerMonths: boolean[]) => void
+  onSummerPriceFactorChange: (factor: number) => void
+}
+
+export default function SeasonalSettings({
+  enabled,
+  multipliers,
+  summerMonths,
+  summerPriceFactor,
+  onEnabledChange,
+  onMultipliersChange,
+  onSummerMonthsChange,
+  onSummerPriceFactorChange,
+}: SeasonalSettingsProps) {
+  const averageMultiplier = multipliers.reduce((sum, value) => sum + value, 0) / Math.max(multipliers.length, 1)
+
+  const updateMultiplier = (idx: number, value: string) => {
+    const parsed = Number.parseFloat(value)
+    onMultipliersChange(multipliers.map((current, i) => (i === idx ? (Number.isFinite(parsed) ? Math.max(0, parsed) : 0) : current)))
+  }
+
+  const toggleSummer = (idx: number) => {
+    onSummerMonthsChange(summerMonths.map((current, i) => (i === idx ? !current : current)))
+  }
+
+  const handleReset = () => {
+    onMultipliersChange([...DEFAULT_SEASONAL_MULTIPLIERS])
+    onSummerMonthsChange([...DEFAULT_SUMMER_MONTHS])
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Seasonal Profile</CardTitle>
+        <CardDescription className="text-slate-600">Run the simulator month by month for annual totals</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="accent-blue-600"
+          />
+          Model 12 months
+        </label>
+
+        {enabled && (
+          <>
+            <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+              {MONTH_LABELS.map((label, idx) => (
+                <div key={label} className="p-2 bg-slate-50 rounded border border-slate-200">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium text-slate-700">{label}</span>
+                    <input
+                      type="checkbox"
+                      checked={summerMonths[idx] ?? false}
+                      onChange={() => toggleSummer(idx)}
+                      title="Bill this month on summer rates"
+                      className="accent-amber-500"
+                    />
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.05"
+                    value={multipliers[idx] ?? 1}
+                    onChange={(e) => updateMultiplier(idx, e.target.value)}
+                    className="w-full px-1 py-0.5 bg-white border border-slate-300 rounded text-slate-900 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              Usage multiplier on q0 per month (average ×{averageMultiplier.toFixed(2)}). Checked months use summer rates.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Summer price factor (× tier prices)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.05"
+                value={summerPriceFactor}
+                onChange={(e) => {
+                  const next = Number.parseFloat(e.target.value)
+                  onSummerPriceFactorChange(Number.isFinite(next) ? Math.max(0, next) : 1)
+                }}
+                className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-slate-500 mt-1">1.00 keeps one schedule year-round.</p>
+            </div>
+            <Button onClick={handleReset} variant="outline" size="sm" className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white">
+              Reset profile
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
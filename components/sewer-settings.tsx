@@ -0,0 +1,144 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  SEWER_BASIS_LABELS,
+  type SewerBasis,
+  type SewerSettings as SewerSettingsState,
+} from "@/lib/sewer"
+import {
+  currencySymbol,
+  fromUnitPrice,
+  fromUsage,
+  priceLabel,
+  priceStep,
+  roundForInput,
+  toUnitPrice,
+  toUsage,
+  usageLabel,
+  usageStep,
+  type UnitSettings,
+} from "@/lib/units"
+
+interface SewerSettingsProps {
+  settings: SewerSettingsState
+  units: UnitSettings
+  onChange: (settings: SewerSettingsState) => void
+}
+
+type NumericField = "fixedCharge" | "rate" | "cap" | "winterRatio"
+
+const inputClassName =
+  "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export default function SewerSettings({ settings, units, onChange }: SewerSettingsProps) {
+  const handleNumericChange = (field: NumericField, value: string, convert = (parsed: number) => parsed) => {
+    const parsed = Number.parseFloat(value)
+    onChange({ ...settings, [field]: Number.isFinite(parsed) ? Math.max(convert(parsed), 0) : 0 })
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Sewer Charges</CardTitle>
+        <CardDescription className="text-slate-600">Sewer component of a combined water/sewer bill</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Add a sewer charge
+        </label>
+
+        {settings.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Fixed charge ({currencySymbol(units)}/mo)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={settings.fixedCharge}
+                  onChange={(e) => handleNumericChange("fixedCharge", e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Volumetric rate ({priceLabel(units)})</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={priceStep(units)}
+                  value={roundForInput(toUnitPrice(settings.rate, units))}
+                  onChange={(e) => handleNumericChange("rate", e.target.value, (parsed) => fromUnitPrice(parsed, units))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Billing basis</label>
+                <select
+                  value={settings.basis}
+                  onChange={(e) => onChange({ ...settings, basis: e.target.value as SewerBasis })}
+                  className={inputClassName}
+                >
+                  {(Object.keys(SEWER_BASIS_LABELS) as SewerBasis[]).map((basis) => (
+                    <option key={basis} value={basis}>
+                      {SEWER_BASIS_LABELS[basis]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {settings.basis === "capped" && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Cap ({usageLabel(units)})</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={usageStep(units)}
+                    value={roundForInput(toUsage(settings.cap, units))}
+                    onChange={(e) => handleNumericChange("cap", e.target.value, (parsed) => fromUsage(parsed, units))}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+              {settings.basis === "winterAverage" && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Winter / typical month</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.05"
+                    value={settings.winterRatio}
+                    onChange={(e) => handleNumericChange("winterRatio", e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={settings.combinedSalience}
+                onChange={(e) => onChange({ ...settings, combinedSalience: e.target.checked })}
+                className="accent-blue-600"
+              />
+              Customers respond to the combined bill
+            </label>
+            <p className="text-xs text-slate-500">
+              A winter-average charge is set by each household&apos;s winter-quarter use (baseline use × the ratio above, or
+              × the Dec–Feb multipliers when a seasonal profile is on), so it does not move with this month&apos;s use. With combined salience the sewer rate adds to the marginal price
+              where it applies and the rest of the sewer bill joins the base fee in bill salience. Sewer revenue is reported
+              apart from water revenue.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
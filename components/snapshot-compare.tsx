@@ -1,22 +1,42 @@
 "use client"
 
 import { useState } from "react"
-import { Trash2, RotateCcw, Plus } from 'lucide-react'
+import { Trash2, RotateCcw, Plus, History } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
 import { SNAPSHOT_CAPTURE_EVENT } from "@/lib/events"
+import type { DemandTrace } from "@/lib/demand"
+import { diffScenarios, type ScenarioState, type ScenarioValue } from "@/lib/scenario"
+import {
+  currencySymbol,
+  formatCurrency,
+  formatPrice,
+  formatUsage,
+  formatVolume,
+  toVolume,
+  volumeLabel,
+  type UnitSettings,
+} from "@/lib/units"
 
 interface Snapshot {
   id: string
   mg: number
   revenue: number
+  seed: number | null
   timestamp: Date
+  scenario: ScenarioState
+  trace: DemandTrace
 }
 
 interface SnapshotCompareProps {
   currentMG: number
   currentRevenue: number
+  currentSeed?: number | null
+  currentScenario: ScenarioState
+  currentTrace: DemandTrace
+  units: UnitSettings
+  onRestore: (scenario: ScenarioState) => void
 }
 
 const formatTruncatedNumber = (value: number): string => {
@@ -28,8 +48,81 @@ const formatTruncatedNumber = (value: number): string => {
   return value.toFixed(1)
 }
 
-export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotCompareProps) {
+type DiffValueKind = "usage" | "price" | "currency"
+
+/**
+ * Scenario fields stored in kgal, $/kgal or $, by path with array indices and class ids dropped
+ */
+const DIFF_VALUE_KINDS: Record<string, DiffValueKind> = {
+  baseFee: "currency",
+  allowance: "usage",
+  "tiers.lower": "usage",
+  "tiers.upper": "usage",
+  "tiers.price": "price",
+  typicalUse: "usage",
+  "demandForm.minimumUse": "usage",
+  "budget.indoorAllotment": "usage",
+  "meters.sizes.charge": "currency",
+  "sewer.fixedCharge": "currency",
+  "sewer.rate": "price",
+  "sewer.cap": "usage",
+  "assistance.lifelinePrice": "price",
+  "assistance.lifelineBlock": "usage",
+  "assistance.adminCost": "currency",
+  "anchor.usage": "usage",
+  "anchor.perceivedPrice": "price",
+  "classAnchors.usage": "usage",
+  "classAnchors.perceivedPrice": "price",
+  "baselineRates.baseFee": "currency",
+  "baselineRates.allowance": "usage",
+  "baselineRates.tiers.lower": "usage",
+  "baselineRates.tiers.upper": "usage",
+  "baselineRates.tiers.price": "price",
+  "classes.list.typicalUse": "usage",
+  "classes.list.baseFee": "currency",
+  "classes.list.tiers.lower": "usage",
+  "classes.list.tiers.upper": "usage",
+  "classes.list.tiers.price": "price",
+  "affordability.medianIncome": "currency",
+}
+
+const diffValueKind = (path: string, scenario: ScenarioState): DiffValueKind | null => {
+  const surcharge = /^surcharges\.items\[(\d+)\]\.amount$/.exec(path)
+  if (surcharge) {
+    const kind = scenario.surcharges.items[Number(surcharge[1])]?.kind
+    return kind === "perKgal" ? "price" : kind === "perConnection" ? "currency" : null
+  }
+  const stage = /^drought\.stages\[(\d+)\]\.surcharge$/.exec(path)
+  if (stage) return scenario.drought.stages[Number(stage[1])]?.surchargeKind === "perKgal" ? "price" : null
+  const key = path.replace(/\[\d+\]/g, "").replace(/^classAnchors\.[^.]+/, "classAnchors")
+  // Water-budget tier breaks are % of each household's budget
+  if (scenario.budget.enabled && /^(baselineRates\.)?tiers\.(lower|upper)$/.test(key)) return null
+  return DIFF_VALUE_KINDS[key] ?? null
+}
+
+const formatDiffValue = (value: ScenarioValue | undefined, kind: DiffValueKind | null, units: UnitSettings): string => {
+  if (value === undefined) return "—"
+  if (value === null) return "∞ / none"
+  if (typeof value === "number") {
+    if (kind === "usage") return formatUsage(value, units)
+    if (kind === "price") return formatPrice(value, units)
+    if (kind === "currency") return formatCurrency(value, units, 2)
+    return Number.isInteger(value) ? value.toString() : value.toFixed(4).replace(/0+$/, "")
+  }
+  return String(value)
+}
+
+export default function SnapshotCompare({
+  currentMG,
+  currentRevenue,
+  currentSeed = null,
+  currentScenario,
+  currentTrace,
+  units,
+  onRestore,
+}: SnapshotCompareProps) {
   const [snapshots, setSnapshots] = useState<Snapshot[]>([])
+  const [compareIds, setCompareIds] = useState<[string, string]>(["", ""])
   const [displayedMG, setDisplayedMG] = useState<number>(currentMG)
   const [displayedRevenue, setDisplayedRevenue] = useState<number>(currentRevenue)
 
@@ -38,7 +131,10 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
       id: `snapshot-${Date.now()}`,
       mg: currentMG,
       revenue: currentRevenue,
+      seed: currentSeed,
       timestamp: new Date(),
+      scenario: currentScenario,
+      trace: currentTrace,
     }
 
     if (snapshots.length >= 20) {
@@ -69,21 +165,18 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
     }
   }
 
+  const handleRestore = (snapshot: Snapshot) => {
+    onRestore(snapshot.scenario)
+    setDisplayedMG(snapshot.mg)
+    setDisplayedRevenue(snapshot.revenue)
+  }
+
   const handleClearAll = () => {
     setSnapshots([])
     setDisplayedMG(currentMG)
     setDisplayedRevenue(currentRevenue)
   }
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value)
-  }
-
   const calculatePercentDifference = (current: number, previous: number | null): number | null => {
     if (previous === null || previous === 0) return null
     return ((current - previous) / previous) * 100
@@ -94,7 +187,7 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
     metric: "mg" | "revenue",
     payload?: Record<string, any>,
   ): string => {
-    const baseString = metric === "mg" ? `${value.toFixed(2)} MG` : formatCurrency(value)
+    const baseString = metric === "mg" ? `${value.toFixed(2)} ${volumeLabel(units)}` : formatCurrency(value, units)
     const percent = metric === "mg" ? payload?.mgChangePercent : payload?.revenueChangePercent
 
     if (percent === null || percent === undefined) {
@@ -105,14 +198,20 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
     return `${baseString} (${sign}${percent.toFixed(1)}%)`
   }
 
+  const formatSnapshotLabel = (label: string, payload?: readonly { payload?: { seed?: number | null } }[]) => {
+    const snapshotSeed = payload?.[0]?.payload?.seed
+    return snapshotSeed === null || snapshotSeed === undefined ? label : `${label} · seed ${snapshotSeed}`
+  }
+
   const chartStartIndex = Math.max(0, snapshots.length - 5)
   const chartData = snapshots.slice(chartStartIndex).map((s, idx) => {
     const absoluteIndex = chartStartIndex + idx
     const previousSnapshot = absoluteIndex > 0 ? snapshots[absoluteIndex - 1] : null
     return {
       label: `v${absoluteIndex + 1}`,
-      mg: Number(s.mg.toFixed(2)),
+      mg: Number(toVolume(s.mg, units).toFixed(2)),
       revenue: Number(s.revenue.toFixed(0)),
+      seed: s.seed,
       mgChangePercent: previousSnapshot ? calculatePercentDifference(s.mg, previousSnapshot.mg) : null,
       revenueChangePercent: previousSnapshot ? calculatePercentDifference(s.revenue, previousSnapshot.revenue) : null,
     }
@@ -123,6 +222,14 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
   const mgDiffPercent = displayedMG !== null && previousMG !== null ? calculatePercentDifference(displayedMG, previousMG) : null
   const revenueDiffPercent = displayedRevenue !== null && previousRevenue !== null ? calculatePercentDifference(displayedRevenue, previousRevenue) : null
 
+  const snapshotLabel = (id: string) => {
+    const index = snapshots.findIndex((snapshot) => snapshot.id === id)
+    return index >= 0 ? `v${index + 1}` : ""
+  }
+  const compareA = snapshots.find((snapshot) => snapshot.id === compareIds[0]) ?? snapshots[snapshots.length - 2] ?? null
+  const compareB = snapshots.find((snapshot) => snapshot.id === compareIds[1]) ?? snapshots[snapshots.length - 1] ?? null
+  const inputDiff = compareA && compareB && compareA.id !== compareB.id ? diffScenarios(compareA.scenario, compareB.scenario) : []
+
   const getDiffColor = (diff: number | null): string => {
     if (diff === null) return 'text-slate-400'
     return diff > 0 ? 'text-red-600' : diff < 0 ? 'text-green-600' : 'text-slate-500'
@@ -174,9 +281,9 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
         {/* Water Use Chart */}
         <Card className="bg-white border-slate-200 shadow-sm">
           <CardHeader className="flex flex-row items-center justify-between pb-3">
-            <CardTitle className="text-slate-900">Water Use (MG/mo)</CardTitle>
+            <CardTitle className="text-slate-900">Water Use ({volumeLabel(units)}/mo)</CardTitle>
             <div className="text-right">
-              <div className="text-2xl font-bold text-[rgba(146,151,241,1)]">{displayedMG?.toFixed(1)}</div>
+              <div className="text-2xl font-bold text-[rgba(146,151,241,1)]">{toVolume(displayedMG, units).toFixed(1)}</div>
               <p className={`text-xs font-semibold ${getDiffColor(mgDiffPercent)}`}>
                 {getDiffSymbol(mgDiffPercent)} {mgDiffPercent !== null ? Math.abs(mgDiffPercent).toFixed(1) : '—'}%
               </p>
@@ -191,6 +298,7 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
                 <Tooltip
                   contentStyle={{ backgroundColor: "#f8fafc", border: "1px solid #e2e8f0", borderRadius: "6px" }}
                   labelStyle={{ color: "#0f172a" }}
+                  labelFormatter={formatSnapshotLabel}
                   formatter={(value, _name, props) =>
                     formatTooltipWithChange(Number(value), "mg", props?.payload)
                   }
@@ -212,9 +320,9 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
         {/* Revenue Chart */}
         <Card className="bg-white border-slate-200 shadow-sm">
           <CardHeader className="flex flex-row items-center justify-between pb-3">
-            <CardTitle className="text-slate-900">Revenue ($/mo)</CardTitle>
+            <CardTitle className="text-slate-900">Revenue ({currencySymbol(units)}/mo)</CardTitle>
             <div className="text-right">
-              <div className="text-2xl font-bold text-[rgba(108,201,119,1)]">${displayedRevenue?.toFixed(0)}</div>
+              <div className="text-2xl font-bold text-[rgba(108,201,119,1)]">{formatCurrency(displayedRevenue, units)}</div>
               <p className={`text-xs font-semibold ${getDiffColor(revenueDiffPercent)}`}>
                 {getDiffSymbol(revenueDiffPercent)} {revenueDiffPercent !== null ? Math.abs(revenueDiffPercent).toFixed(1) : '—'}%
               </p>
@@ -229,6 +337,7 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
                 <Tooltip
                   contentStyle={{ backgroundColor: "#f8fafc", border: "1px solid #e2e8f0", borderRadius: "6px" }}
                   labelStyle={{ color: "#0f172a" }}
+                  labelFormatter={formatSnapshotLabel}
                   formatter={(value, _name, props) =>
                     formatTooltipWithChange(Number(value), "revenue", props?.payload)
                   }
@@ -247,6 +356,86 @@ export default function SnapshotCompare({ currentMG, currentRevenue }: SnapshotC
           </CardContent>
         </Card>
       </div>
+
+      {snapshots.length > 0 && (
+        <Card className="bg-white border-slate-200 shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-slate-900">Snapshot History</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ul className="space-y-1 max-h-64 overflow-y-auto text-sm">
+              {snapshots.map((snapshot, idx) => (
+                <li key={snapshot.id} className="flex items-center gap-2 border-b border-slate-100 py-1">
+                  <span className="font-mono text-slate-900 w-10">v{idx + 1}</span>
+                  <span className="flex-1 text-xs text-slate-600">
+                    {formatVolume(snapshot.mg, units)} · {formatCurrency(snapshot.revenue, units)} · q*{" "}
+                    {formatUsage(snapshot.trace.perConnectionUsage, units)} · bill{" "}
+                    {formatCurrency(snapshot.trace.billPerConnection, units, 2)}
+                    {snapshot.trace.perception && <span className="block text-slate-400">{snapshot.trace.perception}</span>}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRestore(snapshot)}
+                    title="Restore this scenario"
+                    className="text-slate-700"
+                  >
+                    <History className="w-4 h-4 mr-1" />
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-slate-600">Compare</span>
+                {[0, 1].map((slot) => (
+                  <select
+                    key={slot}
+                    value={(slot === 0 ? compareA : compareB)?.id ?? ""}
+                    onChange={(e) =>
+                      setCompareIds((prev) => (slot === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value]))
+                    }
+                    className="px-2 py-1 bg-white border border-slate-300 rounded text-slate-900 text-sm"
+                  >
+                    {snapshots.map((snapshot) => (
+                      <option key={snapshot.id} value={snapshot.id}>
+                        {snapshotLabel(snapshot.id)}
+                      </option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+              {!compareA || !compareB || compareA.id === compareB.id ? (
+                <p className="text-xs text-slate-500">Pick two different snapshots to see which inputs changed.</p>
+              ) : inputDiff.length === 0 ? (
+                <p className="text-xs text-slate-500">Inputs are identical.</p>
+              ) : (
+                <div className="max-h-56 overflow-y-auto">
+                  <div className="grid grid-cols-3 gap-2 text-xs font-medium text-slate-500">
+                    <span>Input</span>
+                    <span className="text-right">{snapshotLabel(compareA.id)}</span>
+                    <span className="text-right">{snapshotLabel(compareB.id)}</span>
+                  </div>
+                  {inputDiff.map((entry) => (
+                    <div key={entry.path} className="grid grid-cols-3 gap-2 text-xs border-t border-slate-100 py-1">
+                      <span className="font-mono text-slate-600 truncate" title={entry.path}>
+                        {entry.path}
+                      </span>
+                      <span className="font-mono text-slate-900 text-right">
+                        {formatDiffValue(entry.before, diffValueKind(entry.path, compareA.scenario), units)}
+                      </span>
+                      <span className="font-mono text-slate-900 text-right">
+                        {formatDiffValue(entry.after, diffValueKind(entry.path, compareB.scenario), units)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
@@ -0,0 +1,151 @@
+"use client"
+
+import { Trash2, Plus } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  SURCHARGE_KIND_LABELS,
+  type SurchargeItem,
+  type SurchargeKind,
+  type SurchargeSettings as SurchargeSettingsState,
+} from "@/lib/surcharges"
+import {
+  currencySymbol,
+  fromUnitPrice,
+  priceLabel,
+  priceStep,
+  roundForInput,
+  toUnitPrice,
+  type UnitSettings,
+} from "@/lib/units"
+
+interface SurchargeSettingsProps {
+  settings: SurchargeSettingsState
+  units: UnitSettings
+  onChange: (settings: SurchargeSettingsState) => void
+}
+
+const inputClassName =
+  "w-full px-2 py-1 bg-white border border-slate-300 rounded text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export default function SurchargeSettings({ settings, units, onChange }: SurchargeSettingsProps) {
+  // Per-volume amounts are stored in $/kgal and entered per display unit.
+  const kindLabel = (kind: SurchargeKind) => {
+    if (kind === "perKgal") return priceLabel(units)
+    if (kind === "perConnection") return `${currencySymbol(units)}/connection`
+    return SURCHARGE_KIND_LABELS[kind]
+  }
+
+  const updateItem = (id: string, update: (item: SurchargeItem) => SurchargeItem) => {
+    onChange({ ...settings, items: settings.items.map((item) => (item.id === id ? update(item) : item)) })
+  }
+
+  const handleAddItem = () => {
+    onChange({
+      ...settings,
+      items: [
+        ...settings.items,
+        { id: `surcharge-${Date.now()}`, name: `Surcharge ${settings.items.length + 1}`, kind: "perConnection", amount: 0, afterTax: false },
+      ],
+    })
+  }
+
+  const handleDeleteItem = (id: string) => {
+    onChange({ ...settings, items: settings.items.filter((item) => item.id !== id) })
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Taxes &amp; Surcharges</CardTitle>
+        <CardDescription className="text-slate-600">Pass-through line items billed on top of water charges</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Add taxes and surcharges to the bill
+        </label>
+
+        {settings.enabled && (
+          <>
+            {settings.items.map((item) => (
+              <div key={item.id} className="p-3 bg-slate-50 rounded border border-slate-200 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={item.name}
+                    onChange={(e) => updateItem(item.id, (current) => ({ ...current, name: e.target.value }))}
+                    className={`${inputClassName} font-medium`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteItem(item.id)}
+                    className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-3 gap-2 items-end">
+                  <div>
+                    <label className="text-xs text-slate-600 mb-1 block">Type</label>
+                    <select
+                      value={item.kind}
+                      onChange={(e) => updateItem(item.id, (current) => ({ ...current, kind: e.target.value as SurchargeKind }))}
+                      className={inputClassName}
+                    >
+                      {(Object.keys(SURCHARGE_KIND_LABELS) as SurchargeKind[]).map((kind) => (
+                        <option key={kind} value={kind}>
+                          {kindLabel(kind)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-xs text-slate-600 mb-1 block">Amount</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={item.kind === "perKgal" ? priceStep(units) : item.kind === "percent" ? "0.5" : "0.25"}
+                      value={item.kind === "perKgal" ? roundForInput(toUnitPrice(item.amount, units)) : item.amount}
+                      onChange={(e) => {
+                        const parsed = Number.parseFloat(e.target.value)
+                        const amount = item.kind === "perKgal" ? fromUnitPrice(parsed, units) : parsed
+                        updateItem(item.id, (current) => ({ ...current, amount: Number.isFinite(amount) ? Math.max(amount, 0) : 0 }))
+                      }}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-slate-700 pb-1.5">
+                    <input
+                      type="checkbox"
+                      checked={item.afterTax}
+                      onChange={(e) => updateItem(item.id, (current) => ({ ...current, afterTax: e.target.checked }))}
+                      className="accent-blue-600"
+                    />
+                    After tax
+                  </label>
+                </div>
+              </div>
+            ))}
+
+            <Button onClick={handleAddItem} variant="outline" className="w-full border-slate-300 text-slate-700 hover:bg-slate-50 bg-white">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Line Item
+            </Button>
+            <p className="text-xs text-slate-500">
+              Before-tax lines are levied on water charges and are themselves taxed by after-tax % lines (utility user taxes,
+              franchise fees); after-tax flat lines are not taxed. Customers see and respond to the whole bill, but these
+              amounts are passed through and reported apart from retained revenue.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
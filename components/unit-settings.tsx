@@ -0,0 +1,105 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  CURRENCY_OPTIONS,
+  LOCALE_OPTIONS,
+  USAGE_UNITS,
+  VOLUME_UNITS,
+  formatCurrency,
+  isSupportedCurrency,
+  type UnitSettings as UnitSettingsState,
+  type UsageUnit,
+  type VolumeUnit,
+} from "@/lib/units"
+
+interface UnitSettingsProps {
+  settings: UnitSettingsState
+  onChange: (settings: UnitSettingsState) => void
+}
+
+// A scenario may carry a code or locale from outside the short lists; keep it selectable.
+const withCurrent = (options: string[], current: string) => (options.includes(current) ? options : [current, ...options])
+
+const inputClassName =
+  "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+export default function UnitSettings({ settings, onChange }: UnitSettingsProps) {
+  const handleCurrencyChange = (currency: string, locale: string) => {
+    if (isSupportedCurrency(currency, locale)) onChange({ ...settings, currency, locale })
+  }
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Units &amp; Currency</CardTitle>
+        <CardDescription className="text-slate-600">How usage, system volume and money are entered and shown</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Customer usage</label>
+            <select
+              value={settings.usage}
+              onChange={(e) => onChange({ ...settings, usage: e.target.value as UsageUnit })}
+              className={inputClassName}
+            >
+              {(Object.keys(USAGE_UNITS) as UsageUnit[]).map((unit) => (
+                <option key={unit} value={unit}>
+                  {USAGE_UNITS[unit].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">System volume</label>
+            <select
+              value={settings.volume}
+              onChange={(e) => onChange({ ...settings, volume: e.target.value as VolumeUnit })}
+              className={inputClassName}
+            >
+              {(Object.keys(VOLUME_UNITS) as VolumeUnit[]).map((unit) => (
+                <option key={unit} value={unit}>
+                  {VOLUME_UNITS[unit].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Currency</label>
+            <select
+              value={settings.currency}
+              onChange={(e) => handleCurrencyChange(e.target.value, settings.locale)}
+              className={inputClassName}
+            >
+              {withCurrent(CURRENCY_OPTIONS, settings.currency).map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Number format</label>
+            <select
+              value={settings.locale}
+              onChange={(e) => handleCurrencyChange(settings.currency, e.target.value)}
+              className={inputClassName}
+            >
+              {withCurrent(LOCALE_OPTIONS, settings.locale).map((locale) => (
+                <option key={locale} value={locale}>
+                  {locale}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-slate-500">
+          Example: {formatCurrency(1234.5, settings, 2)}. Inputs, tier bounds, charts and exports follow these units; amounts
+          are relabeled, not exchanged. Saved scenarios keep kgal, MG and the entered amounts, so switching units never
+          changes results.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
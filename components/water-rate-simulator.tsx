@@ -1,35 +1,144 @@
 "use client"
 
 import { useCallback, useEffect, useMemo, useState } from "react"
-import { Trash2, Plus } from 'lucide-react'
+import { Trash2, Plus, Link2 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import SnapshotCompare from "./snapshot-compare"
+import SeasonalSettings from "./seasonal-settings"
+import SeasonalBreakdown from "./seasonal-breakdown"
+import CustomerClasses from "./customer-classes"
+import RevenueSolver from "./revenue-solver"
+import ScenarioLibrary from "./scenario-library"
+import ScenarioFileControls from "./scenario-file-controls"
+import BillImpactTable from "./bill-impact-table"
+import AdjustmentSettings from "./adjustment-settings"
+import AdjustmentPath from "./adjustment-path"
+import WeatherScenarios from "./weather-scenarios"
+import DroughtSettings from "./drought-settings"
+import DroughtStages from "./drought-stages"
+import BudgetSettings from "./budget-settings"
+import MeterSettings from "./meter-settings"
+import SewerSettings from "./sewer-settings"
+import AssistanceSettings from "./assistance-settings"
+import SurchargeSettings from "./surcharge-settings"
+import AssistanceImpacts from "./assistance-impacts"
+import UnitSettings from "./unit-settings"
 import {
   type TierDefinition,
   type BaselineAnchor,
+  type DemandEngine,
+  type DemandModelOptions,
   type DemandResult,
+  type PerceptionRule,
+  type PerceptionSettings,
+  PERCEPTION_RULE_LABELS,
+  applyAllowance,
   calculateDemand,
-  computePerceivedPrice,
+  computeReferencePrice,
   normalizeTiers,
   validateTiers,
 } from "@/lib/demand"
 import {
   generateMonteCarloDraws,
+  normalizeSeed,
+  randomSeed,
   runMonteCarloSimulation,
   type MonteCarloDraws,
+  type MonteCarloParams,
   type MonteCarloResult,
 } from "@/lib/montecarlo"
 import UsageHistogram from "@/components/analytics/UsageHistogram"
 import TierOccupancyBars from "@/components/analytics/TierOccupancyBars"
 import DecileWaterfall from "@/components/analytics/DecileWaterfall"
 import ElasticityBeeswarm from "@/components/analytics/ElasticityBeeswarm"
+import AffordabilityPanel from "@/components/analytics/AffordabilityPanel"
 import { SNAPSHOT_CAPTURE_EVENT } from "@/lib/events"
+import {
+  buildSeasonalMonths,
+  runSeasonalSimulation,
+  scaleTierPrices,
+  type SeasonalParams,
+  type SeasonalResult,
+} from "@/lib/seasonal"
+import {
+  RESIDENTIAL_CLASS_ID,
+  aggregateClassResults,
+  computeClassAnchor,
+  runCustomerClass,
+  type ClassSystemResult,
+  type CustomerClass,
+} from "@/lib/classes"
+import { DEFAULT_SCENARIO, type ScenarioState } from "@/lib/scenario"
+import { buildShareUrl, decodeScenarioHash, encodeScenarioHash } from "@/lib/share"
+import { summarizeResults } from "@/lib/fileformat"
+import type { RateSchedule } from "@/lib/bills"
+import type { AffordabilitySettings } from "@/lib/affordability"
+import {
+  DEMAND_FORM_EQUATIONS,
+  DEMAND_FORM_LABELS,
+  ELASTICITY_MAX,
+  clampEndUseElasticity,
+  describeDemandForm,
+  type DemandFormId,
+  type DemandFormSettings,
+  type EndUseSettings,
+} from "@/lib/forms"
+import {
+  runAdjustmentSimulation,
+  type AdjustmentParams,
+  type AdjustmentResult,
+  type AdjustmentSettings as AdjustmentSettingsState,
+} from "@/lib/dynamics"
+import type { WeatherSettings } from "@/lib/weather"
+import {
+  runDroughtSimulation,
+  type DroughtParams,
+  type DroughtResult,
+  type DroughtSettings as DroughtSettingsState,
+} from "@/lib/drought"
+import {
+  scheduleTiers,
+  tiersAsBudgetPercent,
+  tiersFromBudgetPercent,
+  typicalBudget,
+  type BudgetSettings as BudgetSettingsState,
+} from "@/lib/budget"
+import { averageMeterCharge, type MeterAssignment, type MeterSettings as MeterSettingsState } from "@/lib/meters"
+import type { SewerSettings as SewerSettingsState } from "@/lib/sewer"
+import type { AssistanceSettings as AssistanceSettingsState } from "@/lib/assistance"
+import type { SurchargeSettings as SurchargeSettingsState } from "@/lib/surcharges"
+import {
+  currencySymbol,
+  formatCurrency,
+  formatPrice,
+  formatUsage,
+  fromUnitPrice,
+  fromUsage,
+  priceLabel,
+  priceStep,
+  roundForInput,
+  toDisplayTiers,
+  toUsage,
+  toVolume,
+  usageLabel,
+  usageStep,
+  volumeLabel,
+  type UnitSettings as UnitSettingsState,
+} from "@/lib/units"
 
 interface Tier extends TierDefinition {
   id: string
 }
 
+/**
+ * An on-demand result and the params it was run with; it is stale once they change.
+ */
+interface SimulationRun<P, R> {
+  params: P
+  result: R
+}
+
 const TYPICAL_USE_MIN = 3
 const USAGE_VARIETY_MIN = 0.3
 const USAGE_VARIETY_MAX = 0.5
@@ -38,76 +147,384 @@ const BILL_SALIENCE_MAX = 0.2
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
+const withTierIds = (tiers: TierDefinition[]): Tier[] =>
+  tiers.map((tier, idx) => ({ id: String(idx + 1), lower: tier.lower, upper: tier.upper, price: tier.price }))
+
 type DemandComputation = DemandResult & { samples?: MonteCarloResult["samples"] }
 
 export default function WaterRateSimulator() {
-  const [connections, setConnections] = useState<number>(1000)
-  const [elasticity, setElasticity] = useState<number>(-0.15)
-  const [baseFee, setBaseFee] = useState<number>(25)
-  const [tiers, setTiers] = useState<Tier[]>([
-    { id: "1", lower: 0, upper: 5, price: 3.5 },
-    { id: "2", lower: 5, upper: 10, price: 4.25 },
-    { id: "3", lower: 10, upper: null, price: 5.0 },
-  ])
+  const [connections, setConnections] = useState<number>(DEFAULT_SCENARIO.connections)
+  const [elasticity, setElasticity] = useState<number>(DEFAULT_SCENARIO.elasticity)
+  const [baseFee, setBaseFee] = useState<number>(DEFAULT_SCENARIO.baseFee)
+  const [allowance, setAllowance] = useState<number>(DEFAULT_SCENARIO.allowance)
+  const [tiers, setTiers] = useState<Tier[]>(withTierIds(DEFAULT_SCENARIO.tiers))
   const [validationMessage, setValidationMessage] = useState<string>("")
   const [anchor, setAnchor] = useState<BaselineAnchor | null>(null)
   const [draws, setDraws] = useState<MonteCarloDraws | null>(null)
-  const [typicalUse, setTypicalUse] = useState<number>(7)
-  const [usageVar, setUsageVar] = useState<number>(0.4)
-  const [billSalience, setBillSalience] = useState<number>(0.05)
+  const [typicalUse, setTypicalUse] = useState<number>(DEFAULT_SCENARIO.typicalUse)
+  const [usageVar, setUsageVar] = useState<number>(DEFAULT_SCENARIO.usageVar)
+  const [billSalience, setBillSalience] = useState<number>(DEFAULT_SCENARIO.billSalience)
+  const [demandEngine, setDemandEngine] = useState<DemandEngine>(DEFAULT_SCENARIO.demandEngine)
+  const [demandForm, setDemandForm] = useState<DemandFormSettings>(DEFAULT_SCENARIO.demandForm)
+  const [perception, setPerception] = useState<PerceptionSettings>(DEFAULT_SCENARIO.perception)
+  const [endUse, setEndUse] = useState<EndUseSettings>(DEFAULT_SCENARIO.endUse)
+  const [adjustment, setAdjustment] = useState<AdjustmentSettingsState>(DEFAULT_SCENARIO.adjustment)
+  const [weather, setWeather] = useState<WeatherSettings>(DEFAULT_SCENARIO.weather)
+  const [drought, setDrought] = useState<DroughtSettingsState>(DEFAULT_SCENARIO.drought)
+  const [budget, setBudget] = useState<BudgetSettingsState>(DEFAULT_SCENARIO.budget)
+  const [meters, setMeters] = useState<MeterSettingsState>(DEFAULT_SCENARIO.meters)
+  const [sewer, setSewer] = useState<SewerSettingsState>(DEFAULT_SCENARIO.sewer)
+  const [assistance, setAssistance] = useState<AssistanceSettingsState>(DEFAULT_SCENARIO.assistance)
+  const [surcharges, setSurcharges] = useState<SurchargeSettingsState>(DEFAULT_SCENARIO.surcharges)
+  const [units, setUnits] = useState<UnitSettingsState>(DEFAULT_SCENARIO.units)
+  const [seed, setSeed] = useState<number>(DEFAULT_SCENARIO.seed)
+  const [seasonalEnabled, setSeasonalEnabled] = useState<boolean>(DEFAULT_SCENARIO.seasonal.enabled)
+  const [seasonalMultipliers, setSeasonalMultipliers] = useState<number[]>(DEFAULT_SCENARIO.seasonal.multipliers)
+  const [summerMonths, setSummerMonths] = useState<boolean[]>(DEFAULT_SCENARIO.seasonal.summerMonths)
+  const [summerPriceFactor, setSummerPriceFactor] = useState<number>(DEFAULT_SCENARIO.seasonal.summerPriceFactor)
+  const [classesEnabled, setClassesEnabled] = useState<boolean>(DEFAULT_SCENARIO.classes.enabled)
+  const [customerClasses, setCustomerClasses] = useState<CustomerClass[]>(DEFAULT_SCENARIO.classes.list)
+  const [classAnchors, setClassAnchors] = useState<Record<string, BaselineAnchor>>(DEFAULT_SCENARIO.classAnchors)
+  const [baselineRates, setBaselineRates] = useState<RateSchedule | null>(DEFAULT_SCENARIO.baselineRates)
+  const [seasonalRun, setSeasonalRun] = useState<SimulationRun<SeasonalParams, SeasonalResult> | null>(null)
+  const [adjustmentRun, setAdjustmentRun] = useState<SimulationRun<AdjustmentParams, AdjustmentResult> | null>(null)
+  const [droughtRun, setDroughtRun] = useState<SimulationRun<DroughtParams, DroughtResult> | null>(null)
+  const [affordability, setAffordability] = useState<AffordabilitySettings>(DEFAULT_SCENARIO.affordability)
+  const [urlReady, setUrlReady] = useState<boolean>(false)
+  const [shareStatus, setShareStatus] = useState<string>("")
+
+  const scenario = useMemo<ScenarioState>(
+    () => ({
+      connections,
+      elasticity,
+      baseFee,
+      allowance,
+      tiers: tiers.map(({ lower, upper, price }) => ({ lower, upper, price })),
+      typicalUse,
+      usageVar,
+      billSalience,
+      demandEngine,
+      demandForm,
+      perception,
+      endUse,
+      adjustment,
+      weather,
+      drought,
+      budget,
+      meters,
+      sewer,
+      assistance,
+      surcharges,
+      units,
+      seed: draws?.seed ?? seed,
+      anchor,
+      classAnchors,
+      baselineRates,
+      seasonal: {
+        enabled: seasonalEnabled,
+        multipliers: seasonalMultipliers,
+        summerMonths,
+        summerPriceFactor,
+      },
+      classes: {
+        enabled: classesEnabled,
+        list: customerClasses,
+      },
+      affordability,
+    }),
+    [
+      adjustment,
+      affordability,
+      allowance,
+      anchor,
+      assistance,
+      baseFee,
+      baselineRates,
+      billSalience,
+      budget,
+      classAnchors,
+      classesEnabled,
+      connections,
+      customerClasses,
+      demandEngine,
+      demandForm,
+      draws,
+      drought,
+      elasticity,
+      endUse,
+      meters,
+      perception,
+      seasonalEnabled,
+      seasonalMultipliers,
+      seed,
+      sewer,
+      summerMonths,
+      summerPriceFactor,
+      surcharges,
+      tiers,
+      typicalUse,
+      units,
+      usageVar,
+      weather,
+    ],
+  )
+
+  const applyScenario = useCallback((next: ScenarioState) => {
+    setConnections(next.connections)
+    setElasticity(next.elasticity)
+    setBaseFee(next.baseFee)
+    setAllowance(next.allowance)
+    setTiers(withTierIds(next.tiers))
+    setTypicalUse(next.typicalUse)
+    setUsageVar(next.usageVar)
+    setBillSalience(next.billSalience)
+    setDemandEngine(next.demandEngine)
+    setDemandForm(next.demandForm)
+    setPerception(next.perception)
+    setEndUse(next.endUse)
+    setAdjustment(next.adjustment)
+    setWeather(next.weather)
+    setDrought(next.drought)
+    setBudget(next.budget)
+    setMeters(next.meters)
+    setSewer(next.sewer)
+    setAssistance(next.assistance)
+    setSurcharges(next.surcharges)
+    setUnits(next.units)
+    setSeed(next.seed)
+    setAnchor(next.anchor)
+    setClassAnchors(next.classAnchors)
+    setBaselineRates(next.baselineRates)
+    setDraws(next.anchor ? generateMonteCarloDraws(undefined, next.seed) : null)
+    setSeasonalEnabled(next.seasonal.enabled)
+    setSeasonalMultipliers(next.seasonal.multipliers)
+    setSummerMonths(next.seasonal.summerMonths)
+    setSummerPriceFactor(next.seasonal.summerPriceFactor)
+    setClassesEnabled(next.classes.enabled)
+    setCustomerClasses(next.classes.list)
+    setAffordability(next.affordability)
+    setValidationMessage("")
+  }, [])
+
+  useEffect(() => {
+    if (typeof window === "undefined") return
+    const restored = decodeScenarioHash(window.location.hash)
+    if (restored) {
+      applyScenario(restored)
+    }
+    setUrlReady(true)
+  }, [applyScenario])
+
+  useEffect(() => {
+    if (!urlReady || typeof window === "undefined") return
+    window.history.replaceState(null, "", `#${encodeScenarioHash(scenario)}`)
+  }, [scenario, urlReady])
+
+  const handleCopyLink = async () => {
+    if (typeof window === "undefined") return
+    const url = buildShareUrl(scenario, window.location.href)
+    try {
+      await navigator.clipboard.writeText(url)
+      setShareStatus("Link copied")
+    } catch {
+      setShareStatus("Copy failed; the link is in the address bar")
+    }
+  }
 
   const normalizedTiers = useMemo(() => normalizeTiers(tiers), [tiers])
   const tierValidation = useMemo(() => validateTiers(normalizedTiers), [normalizedTiers])
   const safeTiers = tierValidation.tiers
   const structuralValidationMessage = tierValidation.isValid ? "" : tierValidation.message ?? ""
   const effectiveTypicalUse = Math.max(typicalUse, TYPICAL_USE_MIN)
+  const demandModel = useMemo<DemandModelOptions>(
+    () => ({ engine: demandEngine, form: demandForm, perception, endUse, budget, meters, sewer, assistance, surcharges }),
+    [assistance, budget, demandEngine, demandForm, endUse, meters, perception, sewer, surcharges],
+  )
+  // Schedule the typical household faces: budget breaks resolved, included allowance free.
+  const referenceTiers = useMemo(
+    () => applyAllowance(scheduleTiers(safeTiers, budget), allowance),
+    [allowance, budget, safeTiers],
+  )
+  // Fixed charge the typical household pays; baseline anchors are frozen against it.
+  const typicalFixedCharge = meters.enabled ? averageMeterCharge(meters.sizes, baseFee) : baseFee
+
+  const monteCarloParams = useMemo<MonteCarloParams | null>(() => {
+    if (!anchor || !draws) return null
+    return {
+      ...demandModel,
+      connections,
+      baseFee,
+      allowance,
+      tiers: safeTiers,
+      anchor,
+      draws,
+      elasticityMean: elasticity,
+      usageVar,
+      validationMessage: structuralValidationMessage || undefined,
+      billSalience,
+    }
+  }, [
+    allowance,
+    anchor,
+    baseFee,
+    billSalience,
+    connections,
+    demandModel,
+    draws,
+    elasticity,
+    safeTiers,
+    structuralValidationMessage,
+    usageVar,
+  ])
 
   const demandResult = useMemo<DemandComputation>(() => {
-    if (anchor && draws) {
-      return runMonteCarloSimulation({
-        connections,
-        baseFee,
-        tiers: safeTiers,
-        anchor,
-        draws,
-        elasticityMean: elasticity,
-        usageVar,
-        validationMessage: structuralValidationMessage || undefined,
-        billSalience,
-      })
+    if (monteCarloParams) {
+      return runMonteCarloSimulation(monteCarloParams)
     }
 
-    const perceivedPrice = computePerceivedPrice(
-      effectiveTypicalUse,
-      safeTiers,
-      baseFee,
-      undefined,
-      billSalience,
-    )
+    const perceivedPrice = computeReferencePrice(effectiveTypicalUse, referenceTiers, typicalFixedCharge, billSalience, demandModel)
     const fallback = calculateDemand({
+      ...demandModel,
       connections,
       elasticity,
       baseFee,
+      allowance,
       tiers: safeTiers,
       billSalience,
       baseline: { usage: effectiveTypicalUse, perceivedPrice },
     })
     return { ...fallback, samples: undefined }
   }, [
+    allowance,
+    baseFee,
+    billSalience,
+    connections,
+    demandModel,
+    elasticity,
+    effectiveTypicalUse,
+    monteCarloParams,
+    referenceTiers,
+    safeTiers,
+    typicalFixedCharge,
+  ])
+
+  // Seasonal, adjustment and drought runs re-simulate the population many times over,
+  // so they run on request rather than on every input change.
+  const adjustmentParams = useMemo<AdjustmentParams | null>(() => {
+    if (!adjustment.enabled || !monteCarloParams) return null
+    return { ...monteCarloParams, settings: adjustment }
+  }, [adjustment, monteCarloParams])
+
+  const handleRunAdjustment = () => {
+    if (!adjustmentParams) return
+    setAdjustmentRun({ params: adjustmentParams, result: runAdjustmentSimulation(adjustmentParams) })
+  }
+
+  const seasonalParams = useMemo<SeasonalParams | null>(() => {
+    if (!seasonalEnabled) return null
+    const summerTiers = summerPriceFactor === 1 ? null : scaleTierPrices(safeTiers, summerPriceFactor)
+    const seasonalBaseline = anchor ?? {
+      usage: effectiveTypicalUse,
+      perceivedPrice: computeReferencePrice(effectiveTypicalUse, referenceTiers, typicalFixedCharge, billSalience, demandModel),
+    }
+    return {
+      ...demandModel,
+      months: buildSeasonalMonths(seasonalMultipliers, summerMonths, summerTiers),
+      connections,
+      baseFee,
+      allowance,
+      tiers: safeTiers,
+      anchor: seasonalBaseline,
+      draws: anchor ? draws : null,
+      elasticityMean: elasticity,
+      usageVar,
+      validationMessage: structuralValidationMessage || undefined,
+      billSalience,
+    }
+  }, [
+    allowance,
     anchor,
     baseFee,
     billSalience,
     connections,
+    demandModel,
     draws,
+    effectiveTypicalUse,
     elasticity,
+    referenceTiers,
+    safeTiers,
+    seasonalEnabled,
+    seasonalMultipliers,
+    structuralValidationMessage,
+    summerMonths,
+    summerPriceFactor,
+    typicalFixedCharge,
+    usageVar,
+  ])
+
+  const handleRunSeasonal = () => {
+    if (!seasonalParams) return
+    setSeasonalRun({ params: seasonalParams, result: runSeasonalSimulation(seasonalParams) })
+  }
+
+  const droughtParams = useMemo<DroughtParams | null>(() => {
+    if (!drought.enabled || drought.stages.length === 0) return null
+    return {
+      ...demandModel,
+      stages: drought.stages,
+      connections,
+      baseFee,
+      allowance,
+      tiers: safeTiers,
+      anchor: anchor ?? {
+        usage: effectiveTypicalUse,
+        perceivedPrice: computeReferencePrice(effectiveTypicalUse, referenceTiers, typicalFixedCharge, billSalience, demandModel),
+      },
+      draws: anchor ? draws : null,
+      elasticityMean: elasticity,
+      usageVar,
+      validationMessage: structuralValidationMessage || undefined,
+      billSalience,
+    }
+  }, [
+    allowance,
+    anchor,
+    baseFee,
+    billSalience,
+    connections,
+    demandModel,
+    draws,
+    drought,
     effectiveTypicalUse,
+    elasticity,
+    referenceTiers,
     safeTiers,
     structuralValidationMessage,
+    typicalFixedCharge,
     usageVar,
   ])
 
-  const currentMG = demandResult.usageMG || 0
-  const currentRevenue = demandResult.revenue || 0
+  const handleRunDrought = () => {
+    if (!droughtParams) return
+    setDroughtRun({ params: droughtParams, result: runDroughtSimulation(droughtParams) })
+  }
+
+  const classSystem = useMemo<ClassSystemResult | null>(() => {
+    if (!classesEnabled) return null
+    const entries = customerClasses.map((cls) => ({
+      id: cls.id,
+      name: cls.name,
+      connections: cls.connections,
+      result: runCustomerClass(cls, anchor ? classAnchors[cls.id] ?? null : null, draws, billSalience, demandModel),
+    }))
+    return aggregateClassResults([
+      { id: RESIDENTIAL_CLASS_ID, name: "Residential", connections, result: demandResult },
+      ...entries,
+    ])
+  }, [anchor, billSalience, classAnchors, classesEnabled, connections, customerClasses, demandModel, demandResult, draws])
+
+  const currentMG = classSystem?.totalMG ?? (demandResult.usageMG || 0)
+  const currentRevenue = classSystem?.totalRevenue ?? (demandResult.revenue || 0)
 
   const combinedValidationMessage =
     validationMessage || structuralValidationMessage || demandResult.validationMessage || ""
@@ -116,22 +533,51 @@ export default function WaterRateSimulator() {
   const proposalUsageSamples = demandResult.samples?.proposal ?? []
   const elasticitySamples = demandResult.samples?.eps ?? []
   const analyticsReady = Boolean(anchor && draws && demandResult.samples)
+  const meterAssignment: MeterAssignment | undefined = demandResult.samples?.meterSizes
+    ? { sizes: meters.sizes, households: demandResult.samples.meterSizes }
+    : undefined
+  const breakUnit = budget.enabled ? "% of budget" : usageLabel(units)
+  const displayTiers = toDisplayTiers(tiers, units, !budget.enabled)
 
   const freezeBaseline = useCallback(
-    (force = false) => {
+    (force = false, drawSeed = seed) => {
       if (anchor && !force) return
       const usage = effectiveTypicalUse
-      const perceivedPrice = computePerceivedPrice(usage, safeTiers, baseFee, undefined, billSalience)
+      const perceivedPrice = computeReferencePrice(usage, referenceTiers, typicalFixedCharge, billSalience, demandModel)
       setAnchor({ usage, perceivedPrice })
-      setDraws(generateMonteCarloDraws())
+      setBaselineRates({ baseFee, allowance, tiers: safeTiers })
+      setClassAnchors(
+        Object.fromEntries(customerClasses.map((cls) => [cls.id, computeClassAnchor(cls, billSalience, demandModel)])),
+      )
+      setDraws(generateMonteCarloDraws(undefined, drawSeed))
     },
-    [anchor, baseFee, billSalience, effectiveTypicalUse, safeTiers],
+    [
+      allowance,
+      anchor,
+      baseFee,
+      billSalience,
+      customerClasses,
+      demandModel,
+      effectiveTypicalUse,
+      referenceTiers,
+      safeTiers,
+      seed,
+      typicalFixedCharge,
+    ],
   )
 
   const handleBaselineClick = () => {
     freezeBaseline(true)
   }
 
+  const handleNewSeed = () => {
+    const nextSeed = randomSeed()
+    setSeed(nextSeed)
+    if (anchor) {
+      setDraws(generateMonteCarloDraws(undefined, nextSeed))
+    }
+  }
+
   useEffect(() => {
     const handleSnapshotCapture = () => {
       freezeBaseline(false)
@@ -163,23 +609,57 @@ export default function WaterRateSimulator() {
     }
   }
 
+  const handleApplySolvedRates = (solvedTiers: TierDefinition[], solvedBaseFee: number) => {
+    setTiers((prev) =>
+      prev.map((tier, idx) => {
+        const solved = solvedTiers[idx]
+        return solved ? { ...tier, price: Number(solved.price.toFixed(4)) } : tier
+      }),
+    )
+    setBaseFee(Number(solvedBaseFee.toFixed(2)))
+    setValidationMessage("")
+  }
+
+  // Switching budget mode re-expresses the tier breaks around the typical household's
+  // budget, so the schedule it faces stays roughly the same.
+  const handleBudgetChange = (next: BudgetSettingsState) => {
+    if (next.enabled !== budget.enabled) {
+      const convert = next.enabled
+        ? (defs: TierDefinition[]) => tiersAsBudgetPercent(defs, typicalBudget(next))
+        : (defs: TierDefinition[]) => tiersFromBudgetPercent(defs, typicalBudget(budget))
+      setTiers((prev) => {
+        const converted = convert(prev)
+        return prev.map((tier, idx) => ({ ...tier, ...converted[idx] }))
+      })
+    }
+    setBudget(next)
+  }
+
+  // Component elasticities stay strictly negative so every demand engine is well defined.
+  const handleEndUseElasticityChange = (field: "indoorElasticity" | "outdoorElasticity", value: string) => {
+    setEndUse({ ...endUse, [field]: clampEndUseElasticity(Number.parseFloat(value)) })
+  }
+
+  // Inputs are in display units; tiers are stored in kgal and $/kgal (breaks stay % of
+  // budget in budget mode).
   const handleUpdateTier = (id: string, field: "lower" | "upper" | "price", value: string) => {
+    const toBreak = (parsed: number) => (budget.enabled ? parsed : fromUsage(parsed, units))
     setTiers((prev) =>
       prev.map((tier) => {
         if (tier.id !== id) return tier
         if (field === "price") {
           const parsed = Number.parseFloat(value)
-          return { ...tier, price: Number.isFinite(parsed) ? parsed : 0 }
+          return { ...tier, price: Number.isFinite(parsed) ? fromUnitPrice(parsed, units) : 0 }
         }
         if (field === "upper") {
           if (value.trim() === "") {
             return { ...tier, upper: null }
           }
           const parsed = Number.parseFloat(value)
-          return { ...tier, upper: Number.isFinite(parsed) ? parsed : null }
+          return { ...tier, upper: Number.isFinite(parsed) ? toBreak(parsed) : null }
         }
         const parsed = Number.parseFloat(value)
-        return { ...tier, lower: Number.isFinite(parsed) ? parsed : 0 }
+        return { ...tier, lower: Number.isFinite(parsed) ? toBreak(parsed) : 0 }
       }),
     )
   }
@@ -187,15 +667,92 @@ export default function WaterRateSimulator() {
   return (
     <div className="min-h-screen bg-white p-6">
       <div className="max-w-7xl mx-auto">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-slate-900 mb-2">Water Rate Simulator</h1>
-          <p className="text-slate-600">Configure pricing tiers and consumer settings</p>
+        <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 mb-2">Water Rate Simulator</h1>
+            <p className="text-slate-600">Configure pricing tiers and consumer settings</p>
+          </div>
+          <div className="flex flex-wrap items-start justify-end gap-2">
+            <ScenarioFileControls
+              scenario={scenario}
+              results={summarizeResults(demandResult)}
+              onImport={applyScenario}
+            />
+            {shareStatus && <span className="text-xs text-slate-500 self-center">{shareStatus}</span>}
+            <Button
+              onClick={handleCopyLink}
+              variant="outline"
+              title="Copy a link that reopens exactly this scenario."
+              className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white"
+            >
+              <Link2 className="w-4 h-4 mr-2" />
+              Copy link
+            </Button>
+          </div>
         </div>
 
-        <SnapshotCompare currentMG={currentMG} currentRevenue={currentRevenue} />
+        <SnapshotCompare
+          currentMG={currentMG}
+          currentRevenue={currentRevenue}
+          currentSeed={draws?.seed ?? null}
+          currentScenario={scenario}
+          currentTrace={demandResult.trace}
+          units={units}
+          onRestore={applyScenario}
+        />
+
+        {seasonalParams && (
+          <div className="mt-6">
+            <SeasonalBreakdown
+              result={seasonalRun?.result ?? null}
+              stale={seasonalRun !== null && seasonalRun.params !== seasonalParams}
+              units={units}
+              onRun={handleRunSeasonal}
+            />
+          </div>
+        )}
+
+        {adjustmentParams && (
+          <div className="mt-6">
+            <AdjustmentPath
+              result={adjustmentRun?.result ?? null}
+              stale={adjustmentRun !== null && adjustmentRun.params !== adjustmentParams}
+              units={units}
+              onRun={handleRunAdjustment}
+            />
+          </div>
+        )}
+
+        {droughtParams && (
+          <div className="mt-6">
+            <DroughtStages
+              result={droughtRun?.result ?? null}
+              stale={droughtRun !== null && droughtRun.params !== droughtParams}
+              units={units}
+              onRun={handleRunDrought}
+            />
+          </div>
+        )}
+
+        {demandResult.assistance && demandResult.samples?.bills && demandResult.samples.participants && (
+          <div className="mt-6">
+            <AssistanceImpacts
+              result={demandResult.assistance}
+              q0={baselineUsageSamples}
+              bills={demandResult.samples.bills}
+              participants={demandResult.samples.participants}
+              baseline={baselineRates ?? { baseFee, allowance, tiers: safeTiers }}
+              budgets={demandResult.samples.budgets}
+              meters={meterAssignment}
+              units={units}
+            />
+          </div>
+        )}
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-8">
           <div className="space-y-6">
+            <UnitSettings settings={units} onChange={setUnits} />
+
             <Card className="bg-white border-slate-200 shadow-sm">
               <CardHeader>
                 <CardTitle className="text-slate-900">Consumer Settings</CardTitle>
@@ -231,6 +788,226 @@ export default function WaterRateSimulator() {
                   />
                   <p className="text-xs text-slate-500 mt-1">Range: –0.30 to –0.10</p>
                 </div>
+
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={endUse.enabled}
+                      onChange={(e) => setEndUse({ ...endUse, enabled: e.target.checked })}
+                      className="accent-blue-600"
+                    />
+                    Split indoor / outdoor use
+                  </label>
+                  {endUse.enabled ? (
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs text-slate-600 mb-1">Mean outdoor share (%)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={95}
+                          step="1"
+                          value={Math.round(endUse.outdoorShare * 100)}
+                          onChange={(e) =>
+                            setEndUse({ ...endUse, outdoorShare: clamp((Number.parseFloat(e.target.value) || 0) / 100, 0, 0.95) })
+                          }
+                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-slate-600 mb-1">Share spread (logit σ)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.1"
+                          value={endUse.shareSpread}
+                          onChange={(e) => setEndUse({ ...endUse, shareSpread: Math.max(Number.parseFloat(e.target.value) || 0, 0) })}
+                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-slate-600 mb-1">Indoor elasticity</label>
+                        <input
+                          type="number"
+                          max={ELASTICITY_MAX}
+                          step="0.01"
+                          value={endUse.indoorElasticity}
+                          onChange={(e) => handleEndUseElasticityChange("indoorElasticity", e.target.value)}
+                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-slate-600 mb-1">Outdoor elasticity</label>
+                        <input
+                          type="number"
+                          max={ELASTICITY_MAX}
+                          step="0.01"
+                          value={endUse.outdoorElasticity}
+                          onChange={(e) => handleEndUseElasticityChange("outdoorElasticity", e.target.value)}
+                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <p className="col-span-2 text-xs text-slate-500">
+                        Replaces the average sensitivity for residential households. Heavier users get larger outdoor shares.
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-slate-500 mt-1">Give discretionary outdoor use its own, stronger price response.</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Demand engine</label>
+                  <select
+                    value={demandEngine}
+                    onChange={(e) => setDemandEngine(e.target.value as DemandEngine)}
+                    className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="perceived">Perceived price (blended marginal/average)</option>
+                    <option value="kinked">Kinked budget (bunching at tier breaks)</option>
+                  </select>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {demandEngine === "kinked"
+                      ? "Households pick the utility-maximizing point on the piecewise budget; some stop exactly at a tier break."
+                      : "Households respond to a blend of marginal and average price."}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Price perception</label>
+                  <select
+                    value={perception.rule}
+                    disabled={demandEngine === "kinked"}
+                    onChange={(e) => setPerception({ ...perception, rule: e.target.value as PerceptionRule })}
+                    className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {(Object.keys(PERCEPTION_RULE_LABELS) as PerceptionRule[]).map((rule) => (
+                      <option key={rule} value={rule}>
+                        {PERCEPTION_RULE_LABELS[rule]}
+                      </option>
+                    ))}
+                  </select>
+                  {demandEngine === "kinked" ? (
+                    <p className="text-xs text-slate-500 mt-1">The kinked budget engine always responds to marginal price.</p>
+                  ) : (
+                    <>
+                      {(perception.rule === "blended" || perception.rule === "lagged") && (
+                        <div className="mt-2">
+                          <div className="flex items-center justify-between mb-1">
+                            <label className="block text-xs text-slate-600">Marginal weight (α)</label>
+                            <span className="text-xs font-mono bg-slate-100 px-2 py-0.5 rounded text-blue-600">
+                              {perception.alpha.toFixed(2)}
+                            </span>
+                          </div>
+                          <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={perception.alpha}
+                            onChange={(e) => setPerception({ ...perception, alpha: clamp(Number.parseFloat(e.target.value), 0, 1) })}
+                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                          />
+                        </div>
+                      )}
+                      {perception.rule === "shin" && (
+                        <div className="mt-2">
+                          <div className="flex items-center justify-between mb-1">
+                            <label className="block text-xs text-slate-600">Shin parameter (k)</label>
+                            <span className="text-xs font-mono bg-slate-100 px-2 py-0.5 rounded text-blue-600">
+                              {perception.shinK.toFixed(2)}
+                            </span>
+                          </div>
+                          <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={perception.shinK}
+                            onChange={(e) => setPerception({ ...perception, shinK: clamp(Number.parseFloat(e.target.value), 0, 1) })}
+                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                          />
+                        </div>
+                      )}
+                      <p className="text-xs text-slate-500 mt-1">
+                        {perception.rule === "shin"
+                          ? "P* = Pm × (Pav / Pm)^k: k = 0 is pure marginal, k = 1 pure average."
+                          : perception.rule === "lagged"
+                            ? "Households react to the price on last month’s bill rather than this month’s usage."
+                            : "How households combine marginal and average price into the price they react to."}
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Demand form</label>
+                  <select
+                    value={demandForm.id}
+                    onChange={(e) => setDemandForm({ ...demandForm, id: e.target.value as DemandFormId })}
+                    className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {(Object.keys(DEMAND_FORM_LABELS) as DemandFormId[]).map((id) => (
+                      <option key={id} value={id}>
+                        {DEMAND_FORM_LABELS[id]}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-500 mt-1 font-mono">{DEMAND_FORM_EQUATIONS[demandForm.id]}</p>
+                  {demandForm.id === "stoneGeary" && (
+                    <div className="mt-2">
+                      <label className="block text-xs text-slate-600 mb-1">
+                        Non-discretionary minimum γ ({usageLabel(units)}/mo)
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={usageStep(units, 0.1)}
+                        value={roundForInput(toUsage(demandForm.minimumUse, units))}
+                        onChange={(e) =>
+                          setDemandForm({
+                            ...demandForm,
+                            minimumUse: Math.max(fromUsage(Number.parseFloat(e.target.value) || 0, units), 0),
+                          })
+                        }
+                        className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+                  {demandForm.id === "logLinear" && (
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs text-slate-600 mb-1">Income elasticity (η)</label>
+                        <input
+                          type="number"
+                          step="0.05"
+                          value={demandForm.incomeElasticity}
+                          onChange={(e) =>
+                            setDemandForm({ ...demandForm, incomeElasticity: Number.parseFloat(e.target.value) || 0 })
+                          }
+                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-slate-600 mb-1">Income vs baseline (Y/Y0)</label>
+                        <input
+                          type="number"
+                          min={0.01}
+                          step="0.01"
+                          value={demandForm.incomeRatio}
+                          onChange={(e) =>
+                            setDemandForm({
+                              ...demandForm,
+                              incomeRatio: Math.max(Number.parseFloat(e.target.value) || 1, 0.01),
+                            })
+                          }
+                          className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
               </CardContent>
             </Card>
 
@@ -245,18 +1022,45 @@ export default function WaterRateSimulator() {
                     Set Baseline
                   </Button>
                   <span className="text-xs text-slate-500">
-                    {anchor ? `Baseline set at q0 = ${anchor.usage.toFixed(2)} kgal` : "No baseline set"}
+                    {anchor ? `Baseline set at q0 = ${formatUsage(anchor.usage, units)}` : "No baseline set"}
                   </span>
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-2">Typical monthly use (kgal/conn)</label>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Random seed</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="1"
+                      value={seed}
+                      onChange={(e) => setSeed(normalizeSeed(Number.parseFloat(e.target.value)))}
+                      className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <Button
+                      onClick={handleNewSeed}
+                      variant="outline"
+                      title="Draw a new synthetic population with a fresh seed."
+                      className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white"
+                    >
+                      New seed
+                    </Button>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {draws ? `Population drawn with seed ${draws.seed}.` : "Set Baseline draws the population from this seed."} The same
+                    seed always reproduces the same households.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    Typical monthly use ({usageLabel(units)}/conn)
+                  </label>
                   <input
                     type="number"
-                    min={TYPICAL_USE_MIN}
-                    step="0.1"
-                    value={typicalUse}
+                    min={roundForInput(toUsage(TYPICAL_USE_MIN, units))}
+                    step={usageStep(units, 0.1)}
+                    value={roundForInput(toUsage(typicalUse, units))}
                     onChange={(e) => {
-                      const next = Number.parseFloat(e.target.value)
+                      const next = fromUsage(Number.parseFloat(e.target.value), units)
                       setTypicalUse(Number.isFinite(next) ? Math.max(next, TYPICAL_USE_MIN) : TYPICAL_USE_MIN)
                     }}
                     className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -321,7 +1125,7 @@ export default function WaterRateSimulator() {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-2">Base Monthly Fee ($)</label>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Base Monthly Fee ({currencySymbol(units)})</label>
                   <input
                     type="number"
                     value={baseFee}
@@ -331,22 +1135,39 @@ export default function WaterRateSimulator() {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    Included Allowance ({usageLabel(units)})
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={roundForInput(toUsage(allowance, units))}
+                    onChange={(e) => setAllowance(Math.max(fromUsage(Number.parseFloat(e.target.value) || 0, units), 0))}
+                    step={usageStep(units)}
+                    className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    Usage up to this amount is covered by the base fee and free at the margin; tiers bill only above it.
+                  </p>
+                </div>
+
                 <div className="border-t border-slate-200 pt-4">
                   <h3 className="text-sm font-semibold text-slate-800 mb-3">Tiers</h3>
                   <div className="hidden md:grid grid-cols-12 gap-2 mb-2 text-xs text-slate-600 font-medium">
-                    <div className="col-span-3">Lower (kgal)</div>
-                    <div className="col-span-3">Upper (kgal/∞)</div>
-                    <div className="col-span-4">Price ($/kgal)</div>
+                    <div className="col-span-3">Lower ({breakUnit})</div>
+                    <div className="col-span-3">Upper ({breakUnit}/∞)</div>
+                    <div className="col-span-4">Price ({priceLabel(units)})</div>
                     <div className="col-span-2"></div>
                   </div>
                   <div className="space-y-2 max-h-60 overflow-y-auto">
-                    {tiers.map((tier) => (
+                    {displayTiers.map((tier) => (
                       <div
                         key={tier.id}
                         className="grid grid-cols-1 md:grid-cols-12 gap-2 items-end p-2 bg-slate-50 rounded border border-slate-200"
                       >
                         <div className="md:col-span-3">
-                          <label className="text-xs text-slate-600 md:hidden mb-1 block">Lower (kgal)</label>
+                          <label className="text-xs text-slate-600 md:hidden mb-1 block">Lower ({breakUnit})</label>
                           <input
                             type="number"
                             value={tier.lower}
@@ -355,7 +1176,7 @@ export default function WaterRateSimulator() {
                           />
                         </div>
                         <div className="md:col-span-3">
-                          <label className="text-xs text-slate-600 md:hidden mb-1 block">Upper (kgal/∞)</label>
+                          <label className="text-xs text-slate-600 md:hidden mb-1 block">Upper ({breakUnit}/∞)</label>
                           <input
                             type="number"
                             value={tier.upper ?? ""}
@@ -365,12 +1186,12 @@ export default function WaterRateSimulator() {
                           />
                         </div>
                         <div className="md:col-span-4">
-                          <label className="text-xs text-slate-600 md:hidden mb-1 block">Price ($/kgal)</label>
+                          <label className="text-xs text-slate-600 md:hidden mb-1 block">Price ({priceLabel(units)})</label>
                           <input
                             type="number"
                             value={tier.price}
                             onChange={(e) => handleUpdateTier(tier.id, "price", e.target.value)}
-                            step="0.01"
+                            step={priceStep(units)}
                             className="w-full px-2 py-1 bg-white border border-slate-300 rounded text-slate-900 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                           />
                         </div>
@@ -401,9 +1222,44 @@ export default function WaterRateSimulator() {
                 )}
               </CardContent>
             </Card>
+
+            <MeterSettings settings={meters} baseFee={baseFee} units={units} onChange={setMeters} />
+
+            <SewerSettings settings={sewer} units={units} onChange={setSewer} />
+
+            <SurchargeSettings settings={surcharges} units={units} onChange={setSurcharges} />
+
+            <BudgetSettings settings={budget} units={units} onChange={handleBudgetChange} />
+
+            <SeasonalSettings
+              enabled={seasonalEnabled}
+              multipliers={seasonalMultipliers}
+              summerMonths={summerMonths}
+              summerPriceFactor={summerPriceFactor}
+              onEnabledChange={setSeasonalEnabled}
+              onMultipliersChange={setSeasonalMultipliers}
+              onSummerMonthsChange={setSummerMonths}
+              onSummerPriceFactorChange={setSummerPriceFactor}
+            />
+
+            <AdjustmentSettings settings={adjustment} onChange={setAdjustment} />
+
+            <DroughtSettings settings={drought} units={units} onChange={setDrought} />
+
+            <AssistanceSettings settings={assistance} units={units} onChange={setAssistance} />
+
+            <CustomerClasses
+              enabled={classesEnabled}
+              classes={customerClasses}
+              units={units}
+              onEnabledChange={setClassesEnabled}
+              onClassesChange={setCustomerClasses}
+            />
           </div>
 
           <div className="space-y-6">
+            <ScenarioLibrary scenario={scenario} onLoad={applyScenario} />
+
             <Card className="bg-white border-slate-200 shadow-sm">
               <CardHeader>
                 <CardTitle className="text-slate-900">Computation Trace</CardTitle>
@@ -414,47 +1270,221 @@ export default function WaterRateSimulator() {
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-slate-600">Median q* (optimal usage)</span>
                       <span className="font-mono text-slate-900">
-                        {demandResult.trace.perConnectionUsage.toFixed(2)} kgal
+                        {formatUsage(demandResult.trace.perConnectionUsage, units)}
                       </span>
                     </div>
                     {demandResult.trace.usageP5 !== undefined && demandResult.trace.usageP95 !== undefined && (
                       <p className="text-xs text-slate-500 mt-1">
-                        P5–P95: {demandResult.trace.usageP5.toFixed(2)} – {demandResult.trace.usageP95.toFixed(2)} kgal
+                        P5–P95: {formatUsage(demandResult.trace.usageP5, units)} – {formatUsage(demandResult.trace.usageP95, units)}
                       </p>
                     )}
                   </div>
                   <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
                     <span className="text-slate-600">Pm(q*) (marginal price)</span>
                     <span className="font-mono text-slate-900">
-                      ${demandResult.trace.marginalPrice.toFixed(2)}/kgal
+                      {formatPrice(demandResult.trace.marginalPrice, units)}
                     </span>
                   </div>
                   <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
                     <span className="text-slate-600">Pav(q*) (avg price)</span>
                     <span className="font-mono text-slate-900">
-                      ${demandResult.trace.averagePrice.toFixed(2)}/kgal
+                      {formatPrice(demandResult.trace.averagePrice, units)}
                     </span>
                   </div>
                   <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
                     <span className="text-slate-600">Pperc (perceived price)</span>
                     <span className="font-mono text-slate-900">
-                      ${demandResult.trace.perceivedPrice.toFixed(2)}/kgal
+                      {formatPrice(demandResult.trace.perceivedPrice, units)}
                     </span>
                   </div>
                   <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
                     <span className="text-slate-600">Median bill per connection</span>
                     <span className="font-mono text-slate-900">
-                      ${demandResult.trace.billPerConnection.toFixed(2)}
+                      {formatCurrency(demandResult.trace.billPerConnection, units, 2)}
                     </span>
                   </div>
                   <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
                     <span className="text-slate-600">Average price sensitivity (ε)</span>
                     <span className="font-mono text-slate-900">{elasticity.toFixed(2)}</span>
                   </div>
+                  {demandResult.convergence && (
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
+                      <span className="text-slate-600">Solver convergence</span>
+                      <span className="text-slate-900">
+                        <span className="font-mono">
+                          {demandResult.convergence.samples - demandResult.convergence.nonConverged}/
+                          {demandResult.convergence.samples}
+                        </span>{" "}
+                        converged
+                        <span className="block text-xs font-mono text-slate-500">
+                          max residual {toUsage(demandResult.convergence.maxResidual, units).toExponential(1)} {usageLabel(units)} · mean{" "}
+                          {demandResult.convergence.meanIterations.toFixed(1)} / max {demandResult.convergence.maxIterations} iterations
+                        </span>
+                      </span>
+                    </div>
+                  )}
+                  {demandResult.trace.outdoorSavingsShare !== undefined && (
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
+                      <span className="text-slate-600">Outdoor share of usage change</span>
+                      <span className="font-mono text-slate-900">
+                        {(demandResult.trace.outdoorSavingsShare * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                  )}
+                  {demandResult.trace.customerBillPerConnection !== undefined && (
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
+                      <span className="text-slate-600">Median customer bill (incl. surcharges)</span>
+                      <span className="font-mono text-slate-900">
+                        {formatCurrency(demandResult.trace.customerBillPerConnection, units, 2)}
+                      </span>
+                    </div>
+                  )}
+                  {demandResult.trace.sewerBillPerConnection !== undefined && (
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
+                      <span className="text-slate-600">Median sewer charge per connection</span>
+                      <span className="font-mono text-slate-900">
+                        {formatCurrency(demandResult.trace.sewerBillPerConnection, units, 2)}
+                      </span>
+                    </div>
+                  )}
+                  {demandResult.trace.budget !== undefined && (
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
+                      <span className="text-slate-600">{analyticsReady ? "Median household budget" : "Typical household budget"}</span>
+                      <span className="font-mono text-slate-900">{formatUsage(demandResult.trace.budget, units)}</span>
+                    </div>
+                  )}
+                  {demandResult.trace.perception && (
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
+                      <span className="text-slate-600">Price perception</span>
+                      <span className="text-slate-900">{demandResult.trace.perception}</span>
+                    </div>
+                  )}
+                  {demandResult.trace.demandForm && (
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 pt-2">
+                      <span className="text-slate-600">Demand form</span>
+                      <span className="text-slate-900">
+                        {describeDemandForm(demandForm, units)}
+                        <span className="block text-xs font-mono text-slate-500">{DEMAND_FORM_EQUATIONS[demandForm.id]}</span>
+                      </span>
+                    </div>
+                  )}
                 </div>
 
+                {demandResult.sewerRevenue !== undefined && (
+                  <div className="mt-4 border-t border-slate-200 pt-3">
+                    <p className="text-sm font-semibold text-slate-800 mb-2">Water vs sewer revenue</p>
+                    {[
+                      { label: "Water", value: demandResult.revenue },
+                      { label: "Sewer", value: demandResult.sewerRevenue },
+                    ].map((row) => (
+                      <div key={row.label} className="grid grid-cols-2 gap-2 text-sm border-t border-slate-100 py-1">
+                        <span className="text-slate-600">{row.label}</span>
+                        <span className="font-mono text-slate-900 text-right">{formatCurrency(row.value, units)}</span>
+                      </div>
+                    ))}
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 py-1 font-semibold">
+                      <span className="text-slate-700">Combined bill revenue</span>
+                      <span className="font-mono text-slate-900 text-right">
+                        {formatCurrency(demandResult.revenue + demandResult.sewerRevenue, units)}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {demandResult.surchargeRevenue && (
+                  <div className="mt-4 border-t border-slate-200 pt-3">
+                    <p className="text-sm font-semibold text-slate-800 mb-2">Retained vs pass-through revenue</p>
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-100 py-1">
+                      <span className="text-slate-600">Utility retained (water)</span>
+                      <span className="font-mono text-slate-900 text-right">{formatCurrency(demandResult.revenue, units)}</span>
+                    </div>
+                    {demandResult.surchargeRevenue.map((row) => (
+                      <div key={row.id} className="grid grid-cols-2 gap-2 text-sm border-t border-slate-100 py-1">
+                        <span className="text-slate-600">{row.name}</span>
+                        <span className="font-mono text-slate-900 text-right">{formatCurrency(row.revenue, units)}</span>
+                      </div>
+                    ))}
+                    <div className="grid grid-cols-2 gap-2 text-sm border-t border-slate-200 py-1 font-semibold">
+                      <span className="text-slate-700">Billed to customers</span>
+                      <span className="font-mono text-slate-900 text-right">
+                        {formatCurrency(
+                          demandResult.revenue + demandResult.surchargeRevenue.reduce((sum, row) => sum + row.revenue, 0),
+                          units,
+                        )}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {demandResult.meterRevenue && (
+                  <div className="mt-4 border-t border-slate-200 pt-3">
+                    <p className="text-sm font-semibold text-slate-800 mb-2">Fixed revenue by meter size</p>
+                    <div className="grid grid-cols-4 gap-2 text-xs text-slate-500 font-medium">
+                      <span>Meter</span>
+                      <span className="text-right">Connections</span>
+                      <span className="text-right">Charge</span>
+                      <span className="text-right">Revenue</span>
+                    </div>
+                    {demandResult.meterRevenue
+                      .filter((row) => row.connections > 0)
+                      .map((row) => (
+                        <div key={row.id} className="grid grid-cols-4 gap-2 text-sm border-t border-slate-100 py-1">
+                          <span className="text-slate-600">{row.label}</span>
+                          <span className="font-mono text-slate-900 text-right">{row.connections.toFixed(0)}</span>
+                          <span className="font-mono text-slate-900 text-right">{formatCurrency(row.charge, units, 2)}</span>
+                          <span className="font-mono text-slate-900 text-right">{formatCurrency(row.revenue, units)}</span>
+                        </div>
+                      ))}
+                    <div className="grid grid-cols-4 gap-2 text-sm border-t border-slate-200 py-1 font-semibold">
+                      <span className="text-slate-700">Fixed total</span>
+                      <span className="font-mono text-slate-900 text-right">
+                        {demandResult.meterRevenue.reduce((sum, row) => sum + row.connections, 0).toFixed(0)}
+                      </span>
+                      <span />
+                      <span className="font-mono text-slate-900 text-right">
+                        {formatCurrency(demandResult.meterRevenue.reduce((sum, row) => sum + row.revenue, 0), units)}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {classSystem && (
+                  <div className="mt-4 border-t border-slate-200 pt-3">
+                    <p className="text-sm font-semibold text-slate-800 mb-2">System totals by class</p>
+                    <div className="grid grid-cols-4 gap-2 text-xs text-slate-500 font-medium">
+                      <span>Class</span>
+                      <span className="text-right">{volumeLabel(units)}</span>
+                      <span className="text-right">Revenue</span>
+                      <span className="text-right">Share</span>
+                    </div>
+                    {classSystem.classes.map((cls) => (
+                      <div key={cls.id} className="grid grid-cols-4 gap-2 text-sm border-t border-slate-100 py-1">
+                        <span className="text-slate-600 truncate">{cls.name}</span>
+                        <span className="font-mono text-slate-900 text-right">{toVolume(cls.usageMG, units).toFixed(2)}</span>
+                        <span className="font-mono text-slate-900 text-right">{formatCurrency(cls.revenue, units)}</span>
+                        <span className="font-mono text-slate-900 text-right">{(cls.revenueShare * 100).toFixed(1)}%</span>
+                      </div>
+                    ))}
+                    <div className="grid grid-cols-4 gap-2 text-sm border-t border-slate-200 py-1 font-semibold">
+                      <span className="text-slate-700">System</span>
+                      <span className="font-mono text-slate-900 text-right">{toVolume(classSystem.totalMG, units).toFixed(2)}</span>
+                      <span className="font-mono text-slate-900 text-right">{formatCurrency(classSystem.totalRevenue, units)}</span>
+                      <span className="font-mono text-slate-900 text-right">100%</span>
+                    </div>
+                    {classSystem.warnings.length > 0 && (
+                      <ul className="mt-2 list-disc pl-4 text-xs text-amber-800">
+                        {classSystem.warnings.map((warning) => (
+                          <li key={warning}>{warning}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
                 {anchor && (
-                  <p className="text-xs text-slate-500 mt-4">Baseline frozen at q0 = {anchor.usage.toFixed(2)} kgal</p>
+                  <p className="text-xs text-slate-500 mt-4">
+                    Baseline frozen at q0 = {formatUsage(anchor.usage, units)}{draws ? ` · seed ${draws.seed}` : ""}
+                  </p>
                 )}
 
                 {demandResult.warnings.length > 0 && (
@@ -470,6 +1500,31 @@ export default function WaterRateSimulator() {
               </CardContent>
             </Card>
 
+            <BillImpactTable
+              baseline={baselineRates}
+              proposal={{ baseFee, allowance, tiers: safeTiers }}
+              elasticity={elasticity}
+              billSalience={billSalience}
+              model={demandModel}
+              units={units}
+            />
+
+            <RevenueSolver
+              params={monteCarloParams}
+              currentRevenue={demandResult.revenue}
+              units={units}
+              onApply={handleApplySolvedRates}
+            />
+
+            <WeatherScenarios
+              params={monteCarloParams}
+              baselineRates={baselineRates}
+              seasonal={scenario.seasonal}
+              settings={weather}
+              units={units}
+              onChange={setWeather}
+            />
+
             <Card className="bg-white border-slate-200 shadow-sm">
               <CardHeader>
                 <CardTitle className="text-slate-900">Customer Analytics</CardTitle>
@@ -477,14 +1532,36 @@ export default function WaterRateSimulator() {
               <CardContent>
                 {analyticsReady ? (
                   <div className="space-y-6">
-                    <UsageHistogram q0={baselineUsageSamples} tiers={safeTiers} />
+                    <UsageHistogram q0={baselineUsageSamples} tiers={referenceTiers} units={units} />
                     <TierOccupancyBars
                       tiers={safeTiers}
                       qBaseline={baselineUsageSamples}
                       qProposal={proposalUsageSamples}
+                      budgets={demandResult.samples?.budgets}
+                      allowance={allowance}
+                    />
+                    <DecileWaterfall
+                      q0={baselineUsageSamples}
+                      q1={proposalUsageSamples}
+                      N={connections}
+                      outdoor0={demandResult.samples?.outdoorBaseline}
+                      outdoor1={demandResult.samples?.outdoorProposal}
+                      units={units}
                     />
-                    <DecileWaterfall q0={baselineUsageSamples} q1={proposalUsageSamples} N={connections} />
                     <ElasticityBeeswarm eps={elasticitySamples} center={elasticity} />
+                    <AffordabilityPanel
+                      q0={baselineUsageSamples}
+                      q1={proposalUsageSamples}
+                      baseline={baselineRates ?? { baseFee, allowance, tiers: safeTiers }}
+                      proposal={{ baseFee, allowance, tiers: safeTiers }}
+                      budgets={demandResult.samples?.budgets}
+                      meters={meterAssignment}
+                      bills={demandResult.samples?.bills}
+                      model={demandModel}
+                      settings={affordability}
+                      units={units}
+                      onSettingsChange={setAffordability}
+                    />
                   </div>
                 ) : (
                   <p className="text-xs text-slate-500">Set Baseline to enable customer analytics.</p>
@@ -0,0 +1,248 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Upload } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import type { RateSchedule } from "@/lib/bills"
+import type { MonteCarloParams } from "@/lib/montecarlo"
+import type { SeasonalSettingsState } from "@/lib/scenario"
+import { MONTH_LABELS } from "@/lib/seasonal"
+import {
+  parseWeatherCsv,
+  runWeatherScenarios,
+  weatherMultipliers,
+  type WeatherAnalysis,
+  type WeatherAnomalies,
+  type WeatherSettings,
+} from "@/lib/weather"
+import { formatCurrency, toVolume, volumeLabel, type UnitSettings } from "@/lib/units"
+
+interface WeatherScenariosProps {
+  params: MonteCarloParams | null
+  baselineRates: RateSchedule | null
+  seasonal: SeasonalSettingsState
+  settings: WeatherSettings
+  units: UnitSettings
+  onChange: (settings: WeatherSettings) => void
+}
+
+const inputClassName =
+  "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+const cellClassName =
+  "w-full px-1 py-0.5 bg-white border border-slate-300 rounded text-slate-900 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+
+const readNumber = (value: string, fallback: number) => {
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+const formatShare = (value: number) => `${(value * 100).toFixed(1)}%`
+
+const formatDelta = (value: number, reference: number) => {
+  if (reference === 0) return "—"
+  const pct = ((value - reference) / reference) * 100
+  return `${pct >= 0 ? "+" : ""}${pct.toFixed(1)}%`
+}
+
+export default function WeatherScenarios({ params, baselineRates, seasonal, settings, units, onChange }: WeatherScenariosProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [result, setResult] = useState<WeatherAnalysis | null>(null)
+  const [status, setStatus] = useState<string>("")
+  const [errors, setErrors] = useState<string[]>([])
+
+  const customMultipliers = weatherMultipliers(settings.custom, settings)
+
+  const updateCustom = (key: keyof WeatherAnomalies, idx: number, value: string) => {
+    onChange({
+      ...settings,
+      custom: { ...settings.custom, [key]: settings.custom[key].map((current, i) => (i === idx ? readNumber(value, 0) : current)) },
+    })
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    const parsed = parseWeatherCsv(await file.text())
+    if (!parsed.anomalies) {
+      setErrors(parsed.errors)
+      setStatus("")
+      return
+    }
+    onChange({ ...settings, custom: parsed.anomalies })
+    setErrors([])
+    setStatus(`Imported ${file.name}`)
+  }
+
+  const handleRun = () => {
+    if (!params) return
+    setResult(
+      runWeatherScenarios({
+        base: params,
+        baselineRates,
+        seasonalMultipliers: seasonal.enabled ? seasonal.multipliers : MONTH_LABELS.map(() => 1),
+        summerMonths: seasonal.enabled ? seasonal.summerMonths : MONTH_LABELS.map(() => false),
+        summerPriceFactor: seasonal.enabled ? seasonal.summerPriceFactor : 1,
+        settings,
+      }),
+    )
+  }
+
+  const normal = result?.years.find((year) => year.id === "normal") ?? null
+
+  return (
+    <Card className="bg-white border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Weather Scenarios</CardTitle>
+        <CardDescription className="text-slate-600">Annual revenue across hot-dry, normal and cool-wet years</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Use change per °F above normal</label>
+            <input
+              type="number"
+              step="0.005"
+              value={settings.tempSensitivity}
+              onChange={(e) => onChange({ ...settings, tempSensitivity: readNumber(e.target.value, 0) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Use change per inch of rain</label>
+            <input
+              type="number"
+              step="0.005"
+              value={settings.precipSensitivity}
+              onChange={(e) => onChange({ ...settings, precipSensitivity: readNumber(e.target.value, 0) })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-slate-700">Custom year anomalies (°F / in)</span>
+            <Button
+              onClick={() => inputRef.current?.click()}
+              variant="outline"
+              size="sm"
+              className="border-slate-300 text-slate-700 hover:bg-slate-50 bg-white"
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              CSV
+            </Button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept="text/csv,.csv,.txt"
+              className="hidden"
+              onChange={(e) => {
+                void handleFile(e.target.files?.[0])
+                e.target.value = ""
+              }}
+            />
+          </div>
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+            {MONTH_LABELS.map((label, idx) => (
+              <div key={label} className="p-2 bg-slate-50 rounded border border-slate-200 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium text-slate-700">{label}</span>
+                  <span className="text-[10px] font-mono text-slate-500">×{customMultipliers[idx].toFixed(2)}</span>
+                </div>
+                <input
+                  type="number"
+                  step="0.5"
+                  value={settings.custom.temp[idx] ?? 0}
+                  onChange={(e) => updateCustom("temp", idx, e.target.value)}
+                  title="Temperature anomaly (°F)"
+                  className={cellClassName}
+                />
+                <input
+                  type="number"
+                  step="0.1"
+                  value={settings.custom.precip[idx] ?? 0}
+                  onChange={(e) => updateCustom("precip", idx, e.target.value)}
+                  title="Precipitation anomaly (in)"
+                  className={cellClassName}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            Baseline use each month is scaled by exp(βT·ΔT + βP·ΔP). CSV rows: month (1–12 or Jan–Dec), temperature anomaly,
+            precipitation anomaly.
+          </p>
+          {status && <p className="text-xs text-slate-500 mt-1">{status}</p>}
+          {errors.length > 0 && (
+            <ul className="mt-2 rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700 list-disc pl-6">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <Button onClick={handleRun} disabled={!params} className="w-full">
+          Run weather years
+        </Button>
+        {!params && <p className="text-xs text-slate-500">Set Baseline to run weather years against the Monte Carlo population.</p>}
+
+        {result && (
+          <div className="space-y-3 border-t border-slate-200 pt-3">
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="text-left font-medium py-1">Year</th>
+                    <th className="text-right font-medium py-1">{volumeLabel(units)}/yr</th>
+                    <th className="text-right font-medium py-1">Revenue</th>
+                    <th className="text-right font-medium py-1">vs normal</th>
+                    <th className="text-right font-medium py-1 pl-3 border-l border-slate-200">Baseline rates</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-slate-900">
+                  {result.years.map((year) => (
+                    <tr key={year.id} className="border-t border-slate-100">
+                      <td className="py-1 font-sans">{year.label}</td>
+                      <td className="text-right">{toVolume(year.annualMG, units).toFixed(1)}</td>
+                      <td className="text-right">{formatCurrency(year.annualRevenue, units)}</td>
+                      <td className="text-right">{normal ? formatDelta(year.annualRevenue, normal.annualRevenue) : "—"}</td>
+                      <td className="text-right pl-3 border-l border-slate-200">
+                        {year.baselineRevenue !== null ? formatCurrency(year.baselineRevenue, units) : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {result.attribution ? (
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <span className="text-slate-600">Revenue variance from rate design</span>
+                <span className="font-mono text-slate-900">{formatShare(result.attribution.rateDesign)}</span>
+                <span className="text-slate-600">Revenue variance from weather</span>
+                <span className="font-mono text-slate-900">{formatShare(result.attribution.weather)}</span>
+                <span className="text-slate-600">Interaction</span>
+                <span className="font-mono text-slate-900">{formatShare(result.attribution.interaction)}</span>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">Set Baseline rates to split revenue variance between rate design and weather.</p>
+            )}
+
+            {result.warnings.length > 0 && (
+              <div className="rounded border border-amber-200 bg-amber-50 p-3">
+                <p className="text-xs font-semibold text-amber-800">Model notes</p>
+                <ul className="mt-1 list-disc pl-4 text-xs text-amber-800">
+                  {result.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,120 @@
+import { median } from "./analytics"
+import type { DemandModelOptions } from "./demand"
+import { RateSchedule, computeBill, customerBill } from "./bills"
+import { resolveBudgetTiers } from "./budget"
+import { MeterAssignment, householdMeterCharge } from "./meters"
+
+export const AFFORDABILITY_THRESHOLDS = [0.02, 0.025, 0.045]
+export const DEFAULT_MEDIAN_INCOME = 75000
+
+/**
+ * Household income as a multiple of MHI for usage deciles D1..D10. Lower users
+ * skew toward lower incomes; the shape is a planning default, not survey data.
+ */
+export const DEFAULT_INCOME_BY_DECILE = [0.45, 0.6, 0.7, 0.8, 0.9, 1.0, 1.1, 1.25, 1.45, 1.8]
+
+export interface AffordabilitySettings {
+  medianIncome: number
+  incomeByDecile: number[] | null
+}
+
+export interface AffordabilityParams extends AffordabilitySettings {
+  q0: number[]
+  q1: number[]
+  baseline: RateSchedule
+  proposal: RateSchedule
+  /**
+   * Per-household budgets (kgal) when tier breaks are % of budget
+   */
+  budgets?: number[]
+  /**
+   * Household meters, so both schedules charge each household its meter charge
+   */
+  meters?: MeterAssignment
+  /**
+   * Proposal water bills per household with assistance discounts applied, used in
+   * place of billing `q1` on `proposal` when the program is on
+   */
+  proposalBills?: number[]
+  /**
+   * Scenario options; sewer charges, taxes and surcharges are added to each household's
+   * water bill
+   */
+  model?: DemandModelOptions
+}
+
+export interface ThresholdShare {
+  threshold: number
+  baselineShare: number
+  proposalShare: number
+  change: number
+}
+
+export interface AffordabilityResult {
+  medianBaselineBill: number
+  medianProposalBill: number
+  baselineBurden: number
+  proposalBurden: number
+  thresholds: ThresholdShare[]
+  sampleCount: number
+}
+
+/**
+ * Assigns each sample an annual income: MHI for everyone, or MHI × the factor of
+ * the household's baseline usage decile when an income distribution is given.
+ */
+export const assignIncomes = (q0: number[], medianIncome: number, incomeByDecile: number[] | null): number[] => {
+  if (!incomeByDecile || incomeByDecile.length === 0) {
+    return q0.map(() => medianIncome)
+  }
+  const order = q0.map((_, idx) => idx).sort((a, b) => q0[a] - q0[b])
+  const incomes = new Array<number>(q0.length)
+  order.forEach((sampleIndex, rank) => {
+    const decile = Math.min(9, Math.floor((rank * 10) / q0.length))
+    incomes[sampleIndex] = medianIncome * Math.max(incomeByDecile[decile] ?? 1, 0.01)
+  })
+  return incomes
+}
+
+export const computeAffordability = (params: AffordabilityParams): AffordabilityResult => {
+  const sampleCount = Math.min(params.q0.length, params.q1.length)
+  const medianIncome = Math.max(params.medianIncome, 1)
+  const q0 = params.q0.slice(0, sampleCount)
+  const incomes = assignIncomes(q0, medianIncome, params.incomeByDecile)
+  const householdSchedule = (schedule: RateSchedule, idx: number): RateSchedule => ({
+    ...schedule,
+    baseFee: householdMeterCharge(params.meters, idx, schedule.baseFee),
+    tiers: params.budgets ? resolveBudgetTiers(schedule.tiers, params.budgets[idx]) : schedule.tiers,
+  })
+  const baselineBills = q0.map((usage, idx) =>
+    customerBill(computeBill(usage, householdSchedule(params.baseline, idx)), usage, usage, params.model),
+  )
+  const proposalBills = params.q1.slice(0, sampleCount).map((usage, idx) => {
+    const waterBill = params.proposalBills?.[idx] ?? computeBill(usage, householdSchedule(params.proposal, idx))
+    return customerBill(waterBill, usage, q0[idx], params.model)
+  })
+
+  const thresholds = AFFORDABILITY_THRESHOLDS.map((threshold) => {
+    let baselineCount = 0
+    let proposalCount = 0
+    for (let i = 0; i < sampleCount; i++) {
+      if ((baselineBills[i] * 12) / incomes[i] > threshold) baselineCount++
+      if ((proposalBills[i] * 12) / incomes[i] > threshold) proposalCount++
+    }
+    const baselineShare = sampleCount > 0 ? baselineCount / sampleCount : 0
+    const proposalShare = sampleCount > 0 ? proposalCount / sampleCount : 0
+    return { threshold, baselineShare, proposalShare, change: proposalShare - baselineShare }
+  })
+
+  const medianBaselineBill = median(baselineBills)
+  const medianProposalBill = median(proposalBills)
+
+  return {
+    medianBaselineBill,
+    medianProposalBill,
+    baselineBurden: (medianBaselineBill * 12) / medianIncome,
+    proposalBurden: (medianProposalBill * 12) / medianIncome,
+    thresholds,
+    sampleCount,
+  }
+}
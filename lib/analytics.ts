@@ -7,11 +7,14 @@ export type HistBin = {
   volShare: number
 }
 
-export const buildUsageHistogram = (usages: number[], binWidth = 1, maxKgal = 30): HistBin[] => {
+/**
+ * Bins are in whatever unit `usages` are given in; the defaults suit kgal.
+ */
+export const buildUsageHistogram = (usages: number[], binWidth = 1, maxUsage = 30): HistBin[] => {
   if (usages.length === 0) return []
   const totalPop = usages.length
   const totalVolume = usages.reduce((sum, val) => sum + Math.max(val, 0), 0) || 1
-  const binCount = Math.floor(maxKgal / binWidth) + 1
+  const binCount = Math.floor(maxUsage / binWidth) + 1
   const bins: HistBin[] = Array.from({ length: binCount }, (_, idx) => ({
     binStart: idx * binWidth,
     binEnd: idx === binCount - 1 ? Number.POSITIVE_INFINITY : (idx + 1) * binWidth,
@@ -49,6 +52,11 @@ export const tierKeys = (tiers: Tier[]): string[] => {
   })
 }
 
+/**
+ * Occupancy key for usage covered by an included allowance
+ */
+export const ALLOWANCE_KEY = "Included"
+
 export const tierBreaks = (tiers: Tier[]): number[] => {
   return tiers
     .map((tier) => tier.upper)
@@ -60,17 +68,29 @@ export type TierShares = {
   [tierKey: string]: number
 }
 
-export const computeTierOccupancy = (tiers: Tier[], usages: number[]): TierShares => {
+/**
+ * Share of accounts per tier. Households flagged in `included` sit in the zero-price
+ * allowance block ahead of the tiers and are counted under ALLOWANCE_KEY instead.
+ */
+export const computeTierOccupancy = (tiers: Tier[], usages: number[], included?: boolean[]): TierShares => {
   const keys = tierKeys(tiers)
   const counts = keys.map(() => 0)
+  let includedCount = 0
 
-  usages.forEach((value) => {
+  usages.forEach((value, i) => {
+    if (included?.[i]) {
+      includedCount += 1
+      return
+    }
     const idx = activeTierIndex(tiers, value)
     counts[idx] += 1
   })
 
   const total = usages.length || 1
   const shares: TierShares = { label: "" }
+  if (included) {
+    shares[ALLOWANCE_KEY] = includedCount / total
+  }
   counts.forEach((count, idx) => {
     shares[keys[idx]] = count / total
   })
@@ -78,13 +98,39 @@ export const computeTierOccupancy = (tiers: Tier[], usages: number[]): TierShare
   return shares
 }
 
+/**
+ * Share of usages within `tolerance` of any of the given break points.
+ */
+export const computeBreakShare = (breaks: number[], usages: number[], tolerance = 1e-3): number => {
+  if (usages.length === 0) return 0
+  const atBreak = usages.filter((value) => breaks.some((edge) => Math.abs(value - edge) <= tolerance)).length
+  return atBreak / usages.length
+}
+
+/**
+ * Share of usages sitting on a tier break, i.e. households bunched at a kink of
+ * the budget constraint.
+ */
+export const computeKinkShare = (tiers: Tier[], usages: number[], tolerance = 1e-3): number =>
+  computeBreakShare(tierBreaks(tiers), usages, tolerance)
+
 export type DecileImpact = {
   decile: string
   deltaMG: number
   pctOfTotal: number
+  /**
+   * Outdoor part of deltaMG, present when outdoor components are supplied
+   */
+  outdoorDeltaMG?: number
 }
 
-export const computeDecileImpacts = (q0: number[], q1: number[], connections: number): DecileImpact[] => {
+export const computeDecileImpacts = (
+  q0: number[],
+  q1: number[],
+  connections: number,
+  outdoor0?: number[],
+  outdoor1?: number[],
+): DecileImpact[] => {
   const sampleCount = Math.min(q0.length, q1.length)
   if (sampleCount === 0 || connections === 0) {
     return Array.from({ length: 10 }, (_, idx) => ({
@@ -93,6 +139,7 @@ export const computeDecileImpacts = (q0: number[], q1: number[], connections: nu
       pctOfTotal: 0,
     }))
   }
+  const hasOutdoor = Boolean(outdoor0 && outdoor1 && outdoor0.length >= sampleCount && outdoor1.length >= sampleCount)
 
   const indices = Array.from({ length: sampleCount }, (_, idx) => idx)
   indices.sort((a, b) => q0[a] - q0[b])
@@ -105,9 +152,13 @@ export const computeDecileImpacts = (q0: number[], q1: number[], connections: nu
     const start = Math.floor((decile * sampleCount) / 10)
     const end = Math.floor(((decile + 1) * sampleCount) / 10)
     let decileDelta = 0
+    let outdoorDelta = 0
     for (let idx = start; idx < end; idx++) {
       const sampleIndex = indices[idx]
       decileDelta += q1[sampleIndex] - q0[sampleIndex]
+      if (hasOutdoor && outdoor0 && outdoor1) {
+        outdoorDelta += outdoor1[sampleIndex] - outdoor0[sampleIndex]
+      }
     }
     const deltaMG = decileDelta * weight
     totalDeltaMG += deltaMG
@@ -115,6 +166,7 @@ export const computeDecileImpacts = (q0: number[], q1: number[], connections: nu
       decile: `D${decile + 1}`,
       deltaMG,
       pctOfTotal: 0,
+      ...(hasOutdoor ? { outdoorDeltaMG: outdoorDelta * weight } : {}),
     })
   }
 
@@ -142,3 +194,13 @@ export const epsBeeswarmPoints = (epsValues: number[], maxPoints = 400): EpsPoin
   }
   return sampled
 }
+
+/**
+ * Median of `values`; 0 when empty
+ */
+export const median = (values: number[]) => {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
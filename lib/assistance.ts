@@ -0,0 +1,199 @@
+import { median } from "./analytics"
+import type { TierDefinition } from "./demand"
+import { RateSchedule, computeBill } from "./bills"
+import { resolveBudgetTiers } from "./budget"
+import { MeterAssignment, householdMeterCharge } from "./meters"
+
+/**
+ * How enrolled households are discounted:
+ * - percentOff: a percentage off the whole water bill
+ * - baseFeeWaiver: the fixed charge is waived
+ * - lifeline: the first `lifelineBlock` kgal are billed at `lifelinePrice`
+ */
+export type AssistanceDiscount = "percentOff" | "baseFeeWaiver" | "lifeline"
+
+export interface AssistanceSettings {
+  enabled: boolean
+  /**
+   * Share of households eligible (%)
+   */
+  eligiblePct: number
+  /**
+   * 0 draws eligibility independently of usage; 1 makes the lowest baseline users
+   * eligible first
+   */
+  lowUsageCorrelation: number
+  /**
+   * Share of eligible households that enroll (%)
+   */
+  enrollmentPct: number
+  discount: AssistanceDiscount
+  percentOff: number
+  lifelinePrice: number
+  lifelineBlock: number
+  /**
+   * Administrative cost per participant ($/month)
+   */
+  adminCost: number
+}
+
+export const DEFAULT_ASSISTANCE: AssistanceSettings = {
+  enabled: false,
+  eligiblePct: 15,
+  lowUsageCorrelation: 0.5,
+  enrollmentPct: 40,
+  discount: "percentOff",
+  percentOff: 25,
+  lifelinePrice: 1,
+  lifelineBlock: 4,
+  adminCost: 2,
+}
+
+export const ASSISTANCE_DISCOUNT_LABELS: Record<AssistanceDiscount, string> = {
+  percentOff: "% off bill",
+  baseFeeWaiver: "Base fee waiver",
+  lifeline: "Lifeline tier price",
+}
+
+const clampShare = (pct: number) => Math.min(Math.max(pct / 100, 0), 1)
+
+export interface AssistanceAssignment {
+  eligible: boolean[]
+  participants: boolean[]
+}
+
+/**
+ * Picks eligible households by rank on a score that leans toward low baseline use as
+ * the correlation rises, then enrolls the given share of them in the order of their
+ * own enrollment draws.
+ */
+export const assignParticipants = (
+  usageSeeds: number[],
+  settings: AssistanceSettings,
+  eligibilitySeeds: number[] = [],
+  enrollmentSeeds: number[] = [],
+): AssistanceAssignment => {
+  const count = usageSeeds.length
+  const rho = Math.min(Math.max(settings.lowUsageCorrelation, 0), 1)
+  const scores = usageSeeds.map((z, idx) => rho * z + Math.sqrt(1 - rho * rho) * (eligibilitySeeds[idx] ?? 0))
+  const eligibleIndices = scores
+    .map((_, idx) => idx)
+    .sort((a, b) => scores[a] - scores[b])
+    .slice(0, Math.round(count * clampShare(settings.eligiblePct)))
+  const enrolledIndices = [...eligibleIndices]
+    .sort((a, b) => (enrollmentSeeds[a] ?? 0) - (enrollmentSeeds[b] ?? 0))
+    .slice(0, Math.round(eligibleIndices.length * clampShare(settings.enrollmentPct)))
+  const eligible = new Array<boolean>(count).fill(false)
+  const participants = new Array<boolean>(count).fill(false)
+  eligibleIndices.forEach((idx) => {
+    eligible[idx] = true
+  })
+  enrolledIndices.forEach((idx) => {
+    participants[idx] = true
+  })
+  return { eligible, participants }
+}
+
+const lifelineTiers = (tiers: TierDefinition[], block: number, price: number): TierDefinition[] => {
+  if (block <= 0) return tiers
+  return tiers.flatMap((tier) => {
+    const upper = tier.upper ?? Number.POSITIVE_INFINITY
+    if (tier.lower >= block) return [tier]
+    const discounted = { ...tier, price: Math.min(tier.price, Math.max(price, 0)) }
+    if (upper <= block) return [discounted]
+    return [{ ...discounted, upper: block }, { ...tier, lower: block }]
+  })
+}
+
+/**
+ * Schedule and fixed charge an enrolled household pays. A lifeline price never raises
+ * a block that is already cheaper, such as an included allowance.
+ */
+export const discountedCharges = (tiers: TierDefinition[], fixedCharge: number, settings: AssistanceSettings) => {
+  if (settings.discount === "baseFeeWaiver") return { tiers, fixedCharge: 0 }
+  if (settings.discount === "lifeline") {
+    return { tiers: lifelineTiers(tiers, settings.lifelineBlock, settings.lifelinePrice), fixedCharge }
+  }
+  const factor = 1 - clampShare(settings.percentOff)
+  return { tiers: tiers.map((tier) => ({ ...tier, price: tier.price * factor })), fixedCharge: fixedCharge * factor }
+}
+
+export interface AssistanceResult {
+  /**
+   * Eligible and enrolled connections
+   */
+  eligible: number
+  participants: number
+  /**
+   * Monthly bill discounts, administration and their total ($)
+   */
+  discountCost: number
+  adminCost: number
+  programCost: number
+  /**
+   * Uniform increase on non-participant water bills that recovers the program cost
+   */
+  fundingIncrease: number
+}
+
+export interface AssistanceImpactParams {
+  q0: number[]
+  /**
+   * Proposal water bills per household, participant discounts applied
+   */
+  bills: number[]
+  participants: boolean[]
+  baseline: RateSchedule
+  budgets?: number[]
+  /**
+   * Household meters, so baseline bills carry the same meter charge as the proposal
+   */
+  meters?: MeterAssignment
+  fundingIncrease: number
+}
+
+export interface AssistanceBillImpact {
+  label: string
+  households: number
+  medianBaselineBill: number
+  medianProposalBill: number
+  change: number
+  percentChange: number | null
+}
+
+/**
+ * Median bills before and after for participants (discounted proposal) and for
+ * non-participants (proposal raised by the funding increase).
+ */
+export const computeAssistanceImpacts = (params: AssistanceImpactParams): AssistanceBillImpact[] => {
+  const sampleCount = Math.min(params.q0.length, params.bills.length, params.participants.length)
+  const baselineBill = (idx: number) =>
+    computeBill(params.q0[idx], {
+      ...params.baseline,
+      baseFee: householdMeterCharge(params.meters, idx, params.baseline.baseFee),
+      tiers: params.budgets ? resolveBudgetTiers(params.baseline.tiers, params.budgets[idx]) : params.baseline.tiers,
+    })
+  const groups = [
+    { label: "Participants", enrolled: true, factor: 1 },
+    { label: "Non-participants", enrolled: false, factor: 1 + params.fundingIncrease },
+  ]
+  return groups.map((group) => {
+    const baseline: number[] = []
+    const proposal: number[] = []
+    for (let i = 0; i < sampleCount; i++) {
+      if (params.participants[i] !== group.enrolled) continue
+      baseline.push(baselineBill(i))
+      proposal.push(params.bills[i] * group.factor)
+    }
+    const medianBaselineBill = median(baseline)
+    const medianProposalBill = median(proposal)
+    return {
+      label: group.label,
+      households: baseline.length,
+      medianBaselineBill,
+      medianProposalBill,
+      change: medianProposalBill - medianBaselineBill,
+      percentChange: medianBaselineBill === 0 ? null : ((medianProposalBill - medianBaselineBill) / medianBaselineBill) * 100,
+    }
+  })
+}
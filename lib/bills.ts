@@ -0,0 +1,154 @@
+import {
+  DemandModelOptions,
+  TierDefinition,
+  applyAllowance,
+  computeReferencePrice,
+  computeVolumetricCharge,
+  solveHouseholdUsage,
+  MIN_PRICE,
+} from "./demand"
+import { scheduleTiers } from "./budget"
+import { averageMeterCharge } from "./meters"
+import { computeSewerCharge, winterAverageUsage } from "./sewer"
+import { computeSurchargeLines } from "./surcharges"
+import { DEFAULT_UNITS, UnitSettings, toUsage } from "./units"
+
+export const DEFAULT_REPRESENTATIVE_USAGES = [4, 8, 15]
+
+export interface RateSchedule {
+  baseFee: number
+  /**
+   * Usage (kgal) included in the base fee; absent on schedules saved before allowances
+   */
+  allowance?: number
+  tiers: TierDefinition[]
+}
+
+export interface BillImpactParams {
+  usages: number[]
+  baseline: RateSchedule
+  proposal: RateSchedule
+  elasticity: number
+  billSalience: number
+  model?: DemandModelOptions
+}
+
+/**
+ * Bills are what the customer pays in all (see `customerBill`)
+ */
+export interface BillImpactRow {
+  usage: number
+  baselineBill: number
+  proposedBill: number
+  change: number
+  percentChange: number | null
+  respondedUsage: number
+  respondedBill: number
+  respondedChange: number
+  respondedPercentChange: number | null
+}
+
+export const computeBill = (usage: number, schedule: RateSchedule) =>
+  schedule.baseFee + computeVolumetricCharge(Math.max(usage, 0), applyAllowance(schedule.tiers, schedule.allowance))
+
+/**
+ * Total a customer is billed for a water bill of `waterBill` at `usage`: taxes and
+ * pass-through lines levied on the water bill, and the sewer charge with the winter
+ * average set by `baselineUsage`, each when on. Retained revenue stays the water bill.
+ */
+export const customerBill = (waterBill: number, usage: number, baselineUsage: number, model?: DemandModelOptions) => {
+  const sewer = model?.sewer?.enabled ? model.sewer : null
+  const surcharges = model?.surcharges?.enabled
+    ? computeSurchargeLines(waterBill, usage, model.surcharges.items).reduce((sum, value) => sum + value, 0)
+    : 0
+  return waterBill + surcharges + (sewer ? computeSewerCharge(usage, winterAverageUsage(baselineUsage, sewer), sewer) : 0)
+}
+
+const percentChange = (next: number, previous: number) => (previous === 0 ? null : ((next - previous) / previous) * 100)
+
+/**
+ * Bills for representative households: at fixed usage, and after the household
+ * re-optimizes under the proposal with its baseline perceived price as reference.
+ */
+export const computeBillImpacts = (params: BillImpactParams): BillImpactRow[] => {
+  const budget = params.model?.budget
+  const meters = params.model?.meters?.enabled ? params.model.meters : null
+  // Resolve each schedule to the fixed charge and kgal tiers its typical household faces:
+  // the meter-mix average when meter sizes are on, allowance included.
+  const resolve = (schedule: RateSchedule): RateSchedule => ({
+    baseFee: meters ? averageMeterCharge(meters.sizes, schedule.baseFee) : schedule.baseFee,
+    tiers: applyAllowance(scheduleTiers(schedule.tiers, budget), schedule.allowance),
+  })
+  const baseline = resolve(params.baseline)
+  const proposal = resolve(params.proposal)
+  return params.usages
+    .filter((usage) => Number.isFinite(usage) && usage >= 0)
+    .map((usage) => {
+      const baselineBill = customerBill(computeBill(usage, baseline), usage, usage, params.model)
+      const proposedBill = customerBill(computeBill(usage, proposal), usage, usage, params.model)
+      const referencePrice = Math.max(
+        MIN_PRICE,
+        computeReferencePrice(usage, baseline.tiers, baseline.baseFee, params.billSalience, params.model),
+      )
+      const response = solveHouseholdUsage(
+        params.elasticity,
+        proposal.tiers,
+        usage,
+        referencePrice,
+        proposal.baseFee,
+        params.billSalience,
+        params.model,
+      )
+      const respondedBill = customerBill(computeBill(response.usage, proposal), response.usage, usage, params.model)
+      return {
+        usage,
+        baselineBill,
+        proposedBill,
+        change: proposedBill - baselineBill,
+        percentChange: percentChange(proposedBill, baselineBill),
+        respondedUsage: response.usage,
+        respondedBill,
+        respondedChange: respondedBill - baselineBill,
+        respondedPercentChange: percentChange(respondedBill, baselineBill),
+      }
+    })
+}
+
+export const parseUsageList = (text: string): number[] =>
+  text
+    .split(/[\s,;]+/)
+    .map((value) => Number.parseFloat(value))
+    .filter((value) => Number.isFinite(value) && value >= 0)
+
+const csvNumber = (value: number | null, decimals = 2) => (value === null ? "" : value.toFixed(decimals))
+
+/**
+ * Usage columns are written in the display unit, named in its header
+ */
+export const billImpactsToCsv = (rows: BillImpactRow[], units: UnitSettings = DEFAULT_UNITS): string => {
+  const header = [
+    `usage_${units.usage}`,
+    "baseline_bill",
+    "proposed_bill_fixed_usage",
+    "change_fixed_usage",
+    "pct_change_fixed_usage",
+    `usage_after_response_${units.usage}`,
+    "proposed_bill_after_response",
+    "change_after_response",
+    "pct_change_after_response",
+  ]
+  const lines = rows.map((row) =>
+    [
+      csvNumber(toUsage(row.usage, units)),
+      csvNumber(row.baselineBill),
+      csvNumber(row.proposedBill),
+      csvNumber(row.change),
+      csvNumber(row.percentChange, 1),
+      csvNumber(toUsage(row.respondedUsage, units)),
+      csvNumber(row.respondedBill),
+      csvNumber(row.respondedChange),
+      csvNumber(row.respondedPercentChange, 1),
+    ].join(","),
+  )
+  return [header.join(","), ...lines].join("\n")
+}
@@ -0,0 +1,137 @@
+import type { TierDefinition } from "./demand"
+
+/**
+ * Water-budget rate structure: tier breaks are percentages of each household's
+ * monthly budget rather than fixed kgal values.
+ * Budget = indoor allotment × persons + outdoor allotment (ETAF) × area × ET.
+ */
+export interface BudgetSettings {
+  enabled: boolean
+  /**
+   * Indoor allotment per person (kgal/month)
+   */
+  indoorAllotment: number
+  /**
+   * Evapotranspiration adjustment factor applied to irrigable area × ET
+   */
+  outdoorAllotment: number
+  /**
+   * Reference evapotranspiration for the billing month (inches)
+   */
+  et: number
+  meanPersons: number
+  /**
+   * Mean irrigable area (sq ft)
+   */
+  meanArea: number
+}
+
+export const DEFAULT_BUDGET: BudgetSettings = {
+  enabled: false,
+  indoorAllotment: 1.65,
+  outdoorAllotment: 0.7,
+  et: 4,
+  meanPersons: 2.8,
+  meanArea: 1500,
+}
+
+/**
+ * Gallons to cover one square foot with one inch of water
+ */
+const GALLONS_PER_SQFT_INCH = 0.623
+const PERSONS_SIGMA = 0.35
+const AREA_SIGMA = 0.6
+/**
+ * Correlation between a household's usage draw and its size/area draws, so larger
+ * households and lots tend to use more
+ */
+const BUDGET_USAGE_CORRELATION = 0.5
+const MIN_BUDGET = 0.1
+
+export const householdBudget = (persons: number, area: number, settings: BudgetSettings) =>
+  Math.max(
+    settings.indoorAllotment * persons +
+      (settings.outdoorAllotment * Math.max(area, 0) * settings.et * GALLONS_PER_SQFT_INCH) / 1000,
+    MIN_BUDGET,
+  )
+
+export const typicalBudget = (settings: BudgetSettings) => householdBudget(settings.meanPersons, settings.meanArea, settings)
+
+export interface HouseholdBudgetAttributes {
+  persons: number[]
+  area: number[]
+  budgets: number[]
+}
+
+const correlated = (usageSeed: number, ownSeed: number) =>
+  BUDGET_USAGE_CORRELATION * usageSeed + Math.sqrt(1 - BUDGET_USAGE_CORRELATION ** 2) * ownSeed
+
+/**
+ * Draws household size and irrigable area per sample (log-normal around the means,
+ * persons rounded to at least one) and the budget they imply.
+ */
+export const buildHouseholdBudgets = (
+  usageSeeds: number[],
+  settings: BudgetSettings,
+  personSeeds: number[] = [],
+  areaSeeds: number[] = [],
+): HouseholdBudgetAttributes => {
+  const persons = usageSeeds.map((z, idx) =>
+    Math.max(
+      1,
+      Math.round(
+        Math.max(settings.meanPersons, 1) *
+          Math.exp(PERSONS_SIGMA * correlated(z, personSeeds[idx] ?? 0) - 0.5 * PERSONS_SIGMA ** 2),
+      ),
+    ),
+  )
+  const area = usageSeeds.map(
+    (z, idx) => Math.max(settings.meanArea, 0) * Math.exp(AREA_SIGMA * correlated(z, areaSeeds[idx] ?? 0) - 0.5 * AREA_SIGMA ** 2),
+  )
+  return { persons, area, budgets: persons.map((count, idx) => householdBudget(count, area[idx], settings)) }
+}
+
+/**
+ * Converts tiers with breaks in % of budget to kgal breaks for one household.
+ */
+export const resolveBudgetTiers = (tiers: TierDefinition[], budget: number): TierDefinition[] =>
+  tiers.map((tier) => ({
+    lower: (tier.lower / 100) * budget,
+    upper: tier.upper === null ? null : (tier.upper / 100) * budget,
+    price: tier.price,
+  }))
+
+/**
+ * Re-expresses kgal breaks as whole percentages of a budget, for switching the tier
+ * editor into budget mode.
+ */
+export const tiersAsBudgetPercent = (tiers: TierDefinition[], budget: number): TierDefinition[] =>
+  tiers.map((tier) => ({
+    lower: Math.round((tier.lower / budget) * 100),
+    upper: tier.upper === null ? null : Math.round((tier.upper / budget) * 100),
+    price: tier.price,
+  }))
+
+/**
+ * Inverse of `tiersAsBudgetPercent`, rounded to 0.1 kgal.
+ */
+export const tiersFromBudgetPercent = (tiers: TierDefinition[], budget: number): TierDefinition[] =>
+  resolveBudgetTiers(tiers, budget).map((tier) => ({
+    lower: Math.round(tier.lower * 10) / 10,
+    upper: tier.upper === null ? null : Math.round(tier.upper * 10) / 10,
+    price: tier.price,
+  }))
+
+/**
+ * Each household's usage as a % of its own budget, so occupancy can be read off the
+ * budget tiers directly.
+ */
+export const usageAsBudgetPercent = (usages: number[], budgets: number[]): number[] =>
+  usages.map((usage, idx) => (usage / Math.max(budgets[idx] ?? MIN_BUDGET, MIN_BUDGET)) * 100)
+
+/**
+ * Tiers a budget-mode schedule resolves to for the typical household; used where a
+ * single kgal schedule is needed (deterministic run, representative bills, anchors).
+ */
+export const scheduleTiers = (tiers: TierDefinition[], budget?: BudgetSettings): TierDefinition[] =>
+  budget?.enabled ? resolveBudgetTiers(tiers, typicalBudget(budget)) : tiers
@@ -0,0 +1,176 @@
+import {
+  BaselineAnchor,
+  DemandModelOptions,
+  DemandResult,
+  TierDefinition,
+  calculateDemand,
+  computeReferencePrice,
+  normalizeTiers,
+  validateTiers,
+} from "./demand"
+import { MonteCarloDraws, runMonteCarloSimulation } from "./montecarlo"
+
+export const RESIDENTIAL_CLASS_ID = "residential"
+
+export interface CustomerClass {
+  id: string
+  name: string
+  connections: number
+  /**
+   * Typical monthly use (kgal/conn) anchoring the class's log-normal usage distribution
+   */
+  typicalUse: number
+  usageVar: number
+  elasticityMean: number
+  baseFee: number
+  tiers: TierDefinition[]
+}
+
+export interface ClassEntry {
+  id: string
+  name: string
+  connections: number
+  result: DemandResult
+}
+
+export interface ClassSummary {
+  id: string
+  name: string
+  connections: number
+  usageMG: number
+  revenue: number
+  revenueShare: number
+}
+
+export interface ClassSystemResult {
+  classes: ClassSummary[]
+  totalConnections: number
+  totalMG: number
+  totalRevenue: number
+  warnings: string[]
+}
+
+export const DEFAULT_CUSTOMER_CLASSES: CustomerClass[] = [
+  {
+    id: "commercial",
+    name: "Commercial",
+    connections: 120,
+    typicalUse: 40,
+    usageVar: 0.6,
+    elasticityMean: -0.1,
+    baseFee: 60,
+    tiers: [{ lower: 0, upper: null, price: 4.5 }],
+  },
+  {
+    id: "irrigation",
+    name: "Irrigation",
+    connections: 40,
+    typicalUse: 30,
+    usageVar: 0.5,
+    elasticityMean: -0.3,
+    baseFee: 35,
+    tiers: [
+      { lower: 0, upper: 20, price: 5 },
+      { lower: 20, upper: null, price: 6.5 },
+    ],
+  },
+]
+
+export const classTiers = (cls: CustomerClass) => validateTiers(normalizeTiers(cls.tiers))
+
+/**
+ * The indoor/outdoor split, water budgets, meter table, sewer charge and assistance
+ * program describe residential households, so classes use their own single elasticity,
+ * kgal tiers and base fee.
+ */
+const classModel = (model: DemandModelOptions): DemandModelOptions => ({
+  ...model,
+  endUse: undefined,
+  budget: undefined,
+  meters: undefined,
+  sewer: undefined,
+  assistance: undefined,
+})
+
+export const computeClassAnchor = (
+  cls: CustomerClass,
+  billSalience: number,
+  model: DemandModelOptions = {},
+): BaselineAnchor => {
+  const usage = Math.max(cls.typicalUse, 0)
+  return {
+    usage,
+    perceivedPrice: computeReferencePrice(usage, classTiers(cls).tiers, cls.baseFee, billSalience, classModel(model)),
+  }
+}
+
+/**
+ * Runs one class through the same demand engine as the main simulator. Without a
+ * frozen anchor the class sits at its typical use (no price response yet).
+ */
+export const runCustomerClass = (
+  cls: CustomerClass,
+  anchor: BaselineAnchor | null,
+  draws: MonteCarloDraws | null,
+  billSalience: number,
+  model: DemandModelOptions = {},
+): DemandResult => {
+  const validation = classTiers(cls)
+  const options = classModel(model)
+  const baseline = anchor ?? computeClassAnchor(cls, billSalience, options)
+  const validationMessage = validation.isValid ? undefined : `${cls.name}: ${validation.message}`
+
+  if (anchor && draws) {
+    return runMonteCarloSimulation({
+      ...options,
+      connections: cls.connections,
+      baseFee: cls.baseFee,
+      tiers: validation.tiers,
+      anchor,
+      draws,
+      elasticityMean: cls.elasticityMean,
+      usageVar: cls.usageVar,
+      validationMessage,
+      billSalience,
+    })
+  }
+
+  const result = calculateDemand({
+    ...options,
+    connections: cls.connections,
+    elasticity: cls.elasticityMean,
+    baseFee: cls.baseFee,
+    tiers: validation.tiers,
+    baseline,
+    billSalience,
+  })
+  return { ...result, validationMessage }
+}
+
+/**
+ * Sums class results into system totals. Warnings are collected from the added
+ * classes only; the residential class reports its own notes in the main trace.
+ */
+export const aggregateClassResults = (entries: ClassEntry[]): ClassSystemResult => {
+  const totalMG = entries.reduce((sum, entry) => sum + (entry.result.usageMG || 0), 0)
+  const totalRevenue = entries.reduce((sum, entry) => sum + (entry.result.revenue || 0), 0)
+  const totalConnections = entries.reduce((sum, entry) => sum + entry.connections, 0)
+  const warnings: string[] = []
+
+  const classes = entries.map((entry) => {
+    if (entry.id !== RESIDENTIAL_CLASS_ID) {
+      entry.result.warnings.forEach((warning) => warnings.push(`${entry.name}: ${warning}`))
+      if (entry.result.validationMessage) warnings.push(entry.result.validationMessage)
+    }
+    return {
+      id: entry.id,
+      name: entry.name,
+      connections: entry.connections,
+      usageMG: entry.result.usageMG,
+      revenue: entry.result.revenue,
+      revenueShare: totalRevenue > 0 ? entry.result.revenue / totalRevenue : 0,
+    }
+  })
+
+  return { classes, totalConnections, totalMG, totalRevenue, warnings }
+}
@@ -1,3 +1,19 @@
+import {
+  DemandForm,
+  DemandFormSettings,
+  EndUseSettings,
+  EndUseSplit,
+  clampEndUseElasticity,
+  createDemandForm,
+  describeDemandForm,
+  splitDemandForm,
+} from "./forms"
+import { BudgetSettings, scheduleTiers, typicalBudget } from "./budget"
+import { MeterRevenue, MeterSettings, averageMeterCharge, meterCountWarning, meterRevenueByMix } from "./meters"
+import type { AssistanceResult, AssistanceSettings } from "./assistance"
+import { SurchargeRevenue, SurchargeSettings, computeSurchargeLines, surchargedCharges } from "./surcharges"
+import { SewerSettings, combinedTiers, computeSewerCharge, sewerFixedPortion, winterAverageUsage } from "./sewer"
+
 export interface TierDefinition {
   lower: number
   upper: number | null
@@ -11,10 +27,107 @@ export interface BaselineAnchor {
   perceivedPrice: number
 }
 
-export interface DemandInputs {
+/**
+ * - perceived: fixed point on the perceived price given by the perception rule
+ * - kinked: utility-maximizing choice on the block-rate budget set, which lets
+ *   households bunch exactly at tier breaks (Burtless–Hausman)
+ */
+export type DemandEngine = "perceived" | "kinked"
+
+/**
+ * How the perceived-price engine turns the rate schedule into a single price:
+ * - blended: α × marginal + (1 − α) × average
+ * - marginal / average: the pure rules (average is "ironing" the schedule)
+ * - shin: Shin (1985) estimator P* = Pm × (Pav / Pm)^k
+ * - lagged: the blended price of last month's bill, i.e. evaluated at baseline usage
+ *   instead of being re-solved against this month's usage
+ * The bill-salience term for the base fee is added under every rule.
+ */
+export type PerceptionRule = "blended" | "marginal" | "average" | "shin" | "lagged"
+
+export interface PerceptionSettings {
+  rule: PerceptionRule
+  alpha: number
+  shinK: number
+}
+
+export interface DemandModelOptions {
+  engine?: DemandEngine
+  /**
+   * Demand functional form; constant elasticity when omitted
+   */
+  form?: DemandFormSettings
+  /**
+   * Price perception rule for the perceived-price engine; blended with α = 0.7 when omitted
+   */
+  perception?: PerceptionSettings
+  /**
+   * Indoor/outdoor split with separate elasticities; off when omitted
+   */
+  endUse?: EndUseSettings
+  /**
+   * Water-budget mode: tier breaks are % of each household's budget; off when omitted
+   */
+  budget?: BudgetSettings
+  /**
+   * Fixed charge by meter size instead of one base fee; off when omitted
+   */
+  meters?: MeterSettings
+  /**
+   * Sewer charge layered onto the water bill; off when omitted
+   */
+  sewer?: SewerSettings
+  /**
+   * Customer assistance program applied to enrolled Monte Carlo households; off when omitted
+   */
+  assistance?: AssistanceSettings
+  /**
+   * Taxes and pass-through fees on the water bill; off when omitted
+   */
+  surcharges?: SurchargeSettings
+}
+
+export interface UsageSolution {
+  usage: number
+  marginalPrice: number
+  averagePrice: number
+  perceivedPrice: number
+  atKink?: boolean
+  /**
+   * Outdoor component of `usage` when the household has an indoor/outdoor split
+   */
+  outdoorUsage?: number
+  /**
+   * Solver iterations used (1 for closed-form rules)
+   */
+  iterations: number
+  /**
+   * |g(q) − q| in kgal at the returned usage, or the final bracket width when the
+   * household settles on a price discontinuity
+   */
+  residual: number
+  converged: boolean
+}
+
+/**
+ * Solver diagnostics over every household behind a result.
+ */
+export interface ConvergenceSummary {
+  samples: number
+  nonConverged: number
+  maxResidual: number
+  meanIterations: number
+  maxIterations: number
+}
+
+export interface DemandInputs extends DemandModelOptions {
   connections: number
   elasticity: number
   baseFee: number
+  /**
+   * Usage (kgal) included in the base fee; billed as a zero-price first block
+   */
+  allowance?: number
   tiers: TierDefinition[]
   baseline?: BaselineAnchor | null
   billSalience?: number
@@ -28,6 +141,30 @@ export interface DemandTrace {
   averagePrice: number
   perceivedPrice: number
   billPerConnection: number
+  /**
+   * Functional form and its parameters, as shown in the Computation Trace
+   */
+  demandForm?: string
+  /**
+   * Price perception rule and its parameters
+   */
+  perception?: string
+  /**
+   * Share of the usage change coming from outdoor use, when the end-use split is on
+   */
+  outdoorSavingsShare?: number
+  /**
+   * Median household water budget (kgal) when tiers are budget-based
+   */
+  budget?: number
+  /**
+   * Median sewer charge per connection when the sewer component is on
+   */
+  sewerBillPerConnection?: number
+  /**
+   * Median water bill plus taxes and pass-through surcharges
+   */
+  customerBillPerConnection?: number
 }
 
 export interface DemandResult {
@@ -38,6 +175,23 @@ export interface DemandResult {
   warnings: string[]
   validationMessage?: string
   tiersUsed: TierDefinition[]
+  convergence?: ConvergenceSummary
+  /**
+   * Fixed-charge revenue by meter size when meter-based charges are on
+   */
+  meterRevenue?: MeterRevenue[]
+  /**
+   * Sewer revenue, kept out of `revenue` (water) when the sewer component is on
+   */
+  sewerRevenue?: number
+  /**
+   * Customer assistance program cost and funding, when the program is on
+   */
+  assistance?: AssistanceResult
+  /**
+   * Pass-through surcharge revenue by line item, kept out of the utility's `revenue`
+   */
+  surchargeRevenue?: SurchargeRevenue[]
 }
 
 export interface TierValidationResult {
@@ -52,7 +206,18 @@ export const MAX_USAGE = 60
 export const MIN_PRICE = 0.01
 export const DEFAULT_ALPHA = 0.7
 export const DEFAULT_BILL_SALIENCE = 0.05
-const FIXED_POINT_ITERATIONS = 12
+export const DEFAULT_SHIN_K = 0.5
+export const DEFAULT_PERCEPTION: PerceptionSettings = { rule: "blended", alpha: DEFAULT_ALPHA, shinK: DEFAULT_SHIN_K }
+export const PERCEPTION_RULE_LABELS: Record<PerceptionRule, string> = {
+  blended: "Blended marginal/average",
+  marginal: "Marginal price",
+  average: "Average price (ironing)",
+  shin: "Shin estimator",
+  lagged: "Lagged last-bill price",
+}
+export const USAGE_TOLERANCE = 1e-6 // kgal
+const SOLVER_MAX_ITERATIONS = 100
+const SOLVER_DAMPED_ITERATIONS = 30
 
 const roundTo = (value: number, decimals = 4) =>
   Number.isFinite(value) ? Number.parseFloat(value.toFixed(decimals)) : 0
@@ -110,6 +275,19 @@ export const validateTiers = (tiers: TierDefinition[]): TierValidationResult =>
   return { tiers, isValid: true }
 }
 
+/**
+ * Folds an included water allowance into the schedule: usage up to `allowance` is
+ * paid for by the base fee, so it becomes a zero-price first block and the tiers are
+ * billed only above it. Idempotent, and a no-op without an allowance.
+ */
+export const applyAllowance = (tiers: TierDefinition[], allowance = 0): TierDefinition[] => {
+  if (!(allowance > 0)) return tiers
+  const billed = tiers
+    .filter((tier) => tier.upper === null || tier.upper > allowance)
+    .map((tier) => ({ ...tier, lower: Math.max(tier.lower, allowance) }))
+  return [{ lower: 0, upper: allowance, price: 0 }, ...billed]
+}
+
 export const clampUsage = (value: number) => Math.min(Math.max(value, MIN_USAGE), MAX_USAGE)
 
 export const computeMarginalPrice = (usage: number, tiers: TierDefinition[]): number => {
@@ -155,6 +333,55 @@ export const computePerceivedPrice = (
   return blended + baseImpact
 }
 
+/**
+ * Perceived price at `usage` under the given perception rule. For the lagged rule
+ * callers pass last month's usage.
+ */
+export const computePerceptionPrice = (
+  usage: number,
+  tiers: TierDefinition[],
+  baseFee: number,
+  billSalience: number,
+  perception: PerceptionSettings = DEFAULT_PERCEPTION,
+): number => {
+  if (perception.rule === "blended" || perception.rule === "lagged") {
+    return computePerceivedPrice(usage, tiers, baseFee, perception.alpha, billSalience)
+  }
+  const marginal = computeMarginalPrice(usage, tiers)
+  const average = computeAveragePrice(usage, tiers)
+  const baseImpact = billSalience * (baseFee / Math.max(usage, MIN_USAGE))
+  if (perception.rule === "marginal") return marginal + baseImpact
+  if (perception.rule === "average") return average + baseImpact
+  // Shin's geometric form is undefined on a free block; fall back to its linear analogue there.
+  const shin =
+    marginal > 0 && average > 0
+      ? marginal * Math.pow(average / marginal, perception.shinK)
+      : (1 - perception.shinK) * marginal + perception.shinK * average
+  return shin + baseImpact
+}
+
+export const describePerception = (options: DemandModelOptions = {}): string => {
+  if (options.engine === "kinked") return PERCEPTION_RULE_LABELS.marginal
+  const perception = options.perception ?? DEFAULT_PERCEPTION
+  const label = PERCEPTION_RULE_LABELS[perception.rule] ?? PERCEPTION_RULE_LABELS.blended
+  if (perception.rule === "blended" || perception.rule === "lagged") {
+    return `${label} (α = ${perception.alpha.toFixed(2)})`
+  }
+  if (perception.rule === "shin") {
+    return `${label} (k = ${perception.shinK.toFixed(2)})`
+  }
+  return label
+}
+
+/**
+ * Damped fixed-point iteration on the residual r(q) = g(q) − q, where g(q) is demand
+ * at the perceived price of q. Because g is clamped to [MIN_USAGE, MAX_USAGE], r ≥ 0
+ * at MIN_USAGE and r ≤ 0 at MAX_USAGE, so a sign-change bracket always exists: damped
+ * steps that leave the bracket, and every step after SOLVER_DAMPED_ITERATIONS, fall
+ * back to bisection, which guarantees convergence. When the bracket collapses on a
+ * tier break without r reaching zero, the perceived price jumps across the break and
+ * the household settles exactly on it.
+ */
 export const solveUsage = (
   elasticity: number,
   tiers: TierDefinition[],
@@ -162,46 +389,281 @@ export const solveUsage = (
   baselinePrice: number,
   baseFee: number,
   billSalience: number,
-): { usage: number; marginalPrice: number; averagePrice: number; perceivedPrice: number } => {
+  form: DemandForm = createDemandForm(),
+  perception: PerceptionSettings = DEFAULT_PERCEPTION,
+): UsageSolution => {
   const baselineUsageClamped = clampUsage(baselineUsage)
   const referencePrice = Math.max(MIN_PRICE, baselinePrice)
+  const priceAt = (usage: number) =>
+    Math.max(MIN_PRICE, computePerceptionPrice(usage, tiers, baseFee, billSalience, perception))
+  const demandAt = (price: number) => clampUsage(form.usage(price, baselineUsageClamped, referencePrice, elasticity))
+
+  if (perception.rule === "lagged") {
+    // Responds once to the price on last month's bill; no fixed point to iterate.
+    const lastBillPrice = priceAt(baselineUsageClamped)
+    const usage = demandAt(lastBillPrice)
+    return {
+      usage,
+      marginalPrice: computeMarginalPrice(usage, tiers),
+      averagePrice: computeAveragePrice(usage, tiers),
+      perceivedPrice: lastBillPrice,
+      iterations: 1,
+      residual: 0,
+      converged: true,
+    }
+  }
+
+  const residualAt = (usage: number) => demandAt(priceAt(usage)) - usage
+  let lower = MIN_USAGE
+  let upper = MAX_USAGE
   let usage = baselineUsageClamped
+  let residual = residualAt(usage)
+  let damping = 1
+  let iterations = 0
+
+  while (iterations < SOLVER_MAX_ITERATIONS && Math.abs(residual) > USAGE_TOLERANCE && upper - lower > USAGE_TOLERANCE) {
+    iterations++
+    if (residual > 0) {
+      lower = usage
+    } else {
+      upper = usage
+    }
+    let next = usage + damping * residual
+    if (iterations > SOLVER_DAMPED_ITERATIONS || next <= lower || next >= upper) {
+      next = (lower + upper) / 2
+    }
+    const nextResidual = residualAt(next)
+    if (Math.sign(nextResidual) !== Math.sign(residual)) {
+      damping *= 0.5
+    }
+    usage = next
+    residual = nextResidual
+  }
 
-  for (let i = 0; i < FIXED_POINT_ITERATIONS; i++) {
-    const perceivedPrice = Math.max(MIN_PRICE, computePerceivedPrice(usage, tiers, baseFee, DEFAULT_ALPHA, billSalience))
-    const nextUsage = clampUsage(baselineUsageClamped * Math.pow(perceivedPrice / referencePrice, elasticity))
-    if (Math.abs(nextUsage - usage) < 0.0005) {
-      usage = nextUsage
-      break
+  let atKink = false
+  let reportedResidual = Math.abs(residual)
+  if (reportedResidual > USAGE_TOLERANCE && upper - lower <= USAGE_TOLERANCE) {
+    const kink = tiers.find((tier) => tier.upper !== null && tier.upper >= lower && tier.upper <= upper)
+    if (kink?.upper !== undefined && kink.upper !== null) {
+      usage = kink.upper
+      atKink = true
     }
-    usage = nextUsage
+    reportedResidual = upper - lower
   }
 
-  const marginalPrice = computeMarginalPrice(usage, tiers)
+  const converged = reportedResidual <= USAGE_TOLERANCE
+  const marginalPrice = atKink ? computeMarginalPrice(usage - 1e-9, tiers) : computeMarginalPrice(usage, tiers)
+  const averagePrice = computeAveragePrice(usage, tiers)
+  const perceivedPrice = computePerceptionPrice(usage, tiers, baseFee, billSalience, perception)
+
+  return { usage, marginalPrice, averagePrice, perceivedPrice, atKink, iterations, residual: reportedResidual, converged }
+}
+
+/**
+ * Relative utility of consuming q with quasi-linear preferences: ∫P(x)dx − bill(q),
+ * where P(x) is the form's inverse demand, dropping the constant of integration.
+ */
+const kinkedUtility = (
+  usage: number,
+  elasticity: number,
+  baselineUsage: number,
+  referencePrice: number,
+  tiers: TierDefinition[],
+  form: DemandForm,
+) => form.benefit(usage, baselineUsage, referencePrice, elasticity) - computeVolumetricCharge(usage, tiers)
+
+/**
+ * Kinked budget constraint solver. Candidates are the interior optimum on every
+ * tier segment plus every tier break; the household picks the one with the highest
+ * utility. For increasing blocks this is the unique optimum, and households whose
+ * demand crosses a break between two prices bunch exactly at that break. Responds
+ * to marginal price only, so bill salience does not enter.
+ */
+export const solveUsageKinked = (
+  elasticity: number,
+  tiers: TierDefinition[],
+  baselineUsage: number,
+  baselinePrice: number,
+  form: DemandForm = createDemandForm(),
+): UsageSolution => {
+  const baselineUsageClamped = clampUsage(baselineUsage)
+  const referencePrice = Math.max(MIN_PRICE, baselinePrice)
+  const demandAt = (price: number) =>
+    clampUsage(form.usage(Math.max(MIN_PRICE, price), baselineUsageClamped, referencePrice, elasticity))
+
+  const candidates: { usage: number; atKink: boolean }[] = []
+  tiers.forEach((tier) => {
+    const upper = tier.upper ?? Number.POSITIVE_INFINITY
+    const interior = demandAt(tier.price)
+    if (interior >= tier.lower && interior <= upper) {
+      candidates.push({ usage: interior, atKink: false })
+    }
+    if (tier.upper !== null && tier.upper > MIN_USAGE && tier.upper < MAX_USAGE) {
+      candidates.push({ usage: tier.upper, atKink: true })
+    }
+  })
+  candidates.push({ usage: MIN_USAGE, atKink: false }, { usage: MAX_USAGE, atKink: false })
+
+  let best = candidates[0]
+  let bestUtility = Number.NEGATIVE_INFINITY
+  candidates.forEach((candidate) => {
+    const utility =
+      elasticity < 0
+        ? kinkedUtility(candidate.usage, elasticity, baselineUsageClamped, referencePrice, tiers, form)
+        : -Math.abs(candidate.usage - baselineUsageClamped)
+    if (utility > bestUtility) {
+      bestUtility = utility
+      best = candidate
+    }
+  })
+
+  const usage = best.usage
+  const marginalPrice = best.atKink ? computeMarginalPrice(usage - 1e-9, tiers) : computeMarginalPrice(usage, tiers)
   const averagePrice = computeAveragePrice(usage, tiers)
-  const perceivedPrice = computePerceivedPrice(usage, tiers, baseFee, DEFAULT_ALPHA, billSalience)
 
-  return { usage, marginalPrice, averagePrice, perceivedPrice }
+  return {
+    usage,
+    marginalPrice,
+    averagePrice,
+    perceivedPrice: marginalPrice,
+    atKink: best.atKink,
+    iterations: 1,
+    residual: 0,
+    converged: true,
+  }
+}
+
+/**
+ * Schedule and fixed charge a household reacts to. Taxes and pass-through surcharges
+ * are always on the bill it sees. With combined-bill salience the sewer rate joins the
+ * water tiers wherever it moves with use, and the rest of the sewer bill joins the
+ * base fee; otherwise customers respond to water alone.
+ */
+const perceivedCharges = (tiers: TierDefinition[], baseFee: number, baselineUsage: number, options: DemandModelOptions) => {
+  const water = options.surcharges?.enabled
+    ? surchargedCharges(tiers, baseFee, options.surcharges.items)
+    : { tiers, fixedCharge: baseFee }
+  const sewer = options.sewer?.enabled && options.sewer.combinedSalience ? options.sewer : null
+  if (!sewer) return { tiers: water.tiers, baseFee: water.fixedCharge }
+  return {
+    tiers: combinedTiers(water.tiers, sewer),
+    baseFee: water.fixedCharge + sewerFixedPortion(winterAverageUsage(baselineUsage, sewer), sewer),
+  }
+}
+
+/**
+ * Price a household at `usage` responds to under the configured engine; used to
+ * freeze baseline anchors so today's rates reproduce today's usage.
+ */
+export const computeReferencePrice = (
+  usage: number,
+  tiers: TierDefinition[],
+  baseFee: number,
+  billSalience: number,
+  options: DemandModelOptions = {},
+): number => {
+  const perceived = perceivedCharges(tiers, baseFee, usage, options)
+  if (options.engine === "kinked") {
+    return computeMarginalPrice(usage, perceived.tiers)
+  }
+  return computePerceptionPrice(usage, perceived.tiers, perceived.baseFee, billSalience, options.perception)
+}
+
+/**
+ * Dispatches to the configured demand engine; every caller that needs a household's
+ * optimal usage goes through here so scenario options apply consistently.
+ */
+export const solveHouseholdUsage = (
+  elasticity: number,
+  tiers: TierDefinition[],
+  baselineUsage: number,
+  baselinePrice: number,
+  baseFee: number,
+  billSalience: number,
+  options: DemandModelOptions = {},
+  split?: EndUseSplit,
+): UsageSolution => {
+  const baseForm = createDemandForm(options.form)
+  const splitForm = split ? splitDemandForm(baseForm, split) : null
+  const form = splitForm ?? baseForm
+  const perceived = perceivedCharges(tiers, baseFee, baselineUsage, options)
+  const solution =
+    options.engine === "kinked"
+      ? solveUsageKinked(elasticity, perceived.tiers, baselineUsage, baselinePrice, form)
+      : solveUsage(
+          elasticity,
+          perceived.tiers,
+          baselineUsage,
+          baselinePrice,
+          perceived.baseFee,
+          billSalience,
+          form,
+          options.perception,
+        )
+  if (splitForm) {
+    solution.outdoorUsage = splitForm.outdoorUsage(solution.usage, clampUsage(baselineUsage), Math.max(MIN_PRICE, baselinePrice))
+  }
+  return solution
+}
+
+/**
+ * Outdoor share of a usage change; null when usage did not move.
+ */
+export const outdoorChangeShare = (totalChange: number, outdoorChange: number): number | null =>
+  Math.abs(totalChange) > 1e-9 ? outdoorChange / totalChange : null
+
+export const convergenceWarning = (summary: ConvergenceSummary): string | null => {
+  if (summary.nonConverged === 0) return null
+  return `Usage solver did not converge for ${summary.nonConverged} of ${summary.samples} households (max residual ${summary.maxResidual.toExponential(1)} kgal).`
 }
 
 export const calculateDemand = (inputs: DemandInputs): DemandResult => {
   const normalizedTiers = normalizeTiers(inputs.tiers)
   const validation = validateTiers(normalizedTiers)
-  const tiers = validation.tiers
+  const tiers = applyAllowance(scheduleTiers(validation.tiers, inputs.budget), inputs.allowance)
 
   const elasticity = Number.isFinite(inputs.elasticity) ? inputs.elasticity : -0.2
   const baseFee = Math.max(0, inputs.baseFee || 0)
   const connections = Math.max(0, inputs.connections || 0)
   const billSalience = inputs.billSalience ?? DEFAULT_BILL_SALIENCE
   const baselineUsage = clampUsage(inputs.baseline?.usage ?? BASELINE_USAGE)
+  // One representative household pays the mix-weighted meter charge.
+  const meters = inputs.meters?.enabled ? inputs.meters : null
+  const fixedCharge = meters ? averageMeterCharge(meters.sizes, baseFee) : baseFee
   const baselinePerceivedPrice = Math.max(
     MIN_PRICE,
-    inputs.baseline?.perceivedPrice ?? computePerceivedPrice(baselineUsage, tiers, baseFee, DEFAULT_ALPHA, billSalience),
+    inputs.baseline?.perceivedPrice ?? computeReferencePrice(baselineUsage, tiers, fixedCharge, billSalience, inputs),
   )
 
-  const usageSolution = solveUsage(elasticity, tiers, baselineUsage, baselinePerceivedPrice, baseFee, billSalience)
+  const split: EndUseSplit | undefined = inputs.endUse?.enabled
+    ? {
+        outdoorShare: inputs.endUse.outdoorShare,
+        indoorElasticity: clampEndUseElasticity(inputs.endUse.indoorElasticity),
+        outdoorElasticity: clampEndUseElasticity(inputs.endUse.outdoorElasticity),
+      }
+    : undefined
+  const usageSolution = solveHouseholdUsage(
+    elasticity,
+    tiers,
+    baselineUsage,
+    baselinePerceivedPrice,
+    fixedCharge,
+    billSalience,
+    inputs,
+    split,
+  )
+  const outdoorSavingsShare =
+    split && usageSolution.outdoorUsage !== undefined
+      ? outdoorChangeShare(usageSolution.usage - baselineUsage, usageSolution.outdoorUsage - baselineUsage * split.outdoorShare)
+      : null
   const volumetricBillPerConnection = computeVolumetricCharge(usageSolution.usage, tiers)
-  const billPerConnection = baseFee + volumetricBillPerConnection
+  const billPerConnection = fixedCharge + volumetricBillPerConnection
+  const sewer = inputs.sewer?.enabled ? inputs.sewer : null
+  const sewerBill = sewer
+    ? computeSewerCharge(usageSolution.usage, winterAverageUsage(baselineUsage, sewer), sewer)
+    : null
+  const surchargeItems = inputs.surcharges?.enabled ? inputs.surcharges.items : null
+  const surchargeLines = surchargeItems ? computeSurchargeLines(billPerConnection, usageSolution.usage, surchargeItems) : null
   const usageMG = (connections * usageSolution.usage) / 1000
   const revenue = billPerConnection * connections
 
@@ -214,6 +676,21 @@ export const calculateDemand = (inputs: DemandInputs): DemandResult => {
   } else if (usageSolution.usage >= MAX_USAGE - 1e-3) {
     warnings.push("Usage reached the maximum bound. Prices may be too low for this elasticity.")
   }
+  const convergence: ConvergenceSummary = {
+    samples: 1,
+    nonConverged: usageSolution.converged ? 0 : 1,
+    maxResidual: usageSolution.residual,
+    meanIterations: usageSolution.iterations,
+    maxIterations: usageSolution.iterations,
+  }
+  const unconverged = convergenceWarning(convergence)
+  if (unconverged) {
+    warnings.push(unconverged)
+  }
+  const meterWarning = meters ? meterCountWarning(meters.sizes, connections) : null
+  if (meterWarning) {
+    warnings.push(meterWarning)
+  }
 
   return {
     usageMG,
@@ -227,9 +704,24 @@ export const calculateDemand = (inputs: DemandInputs): DemandResult => {
       averagePrice: usageSolution.averagePrice,
       perceivedPrice: usageSolution.perceivedPrice,
       billPerConnection,
+      demandForm: describeDemandForm(inputs.form),
+      perception: describePerception(inputs),
+      outdoorSavingsShare: outdoorSavingsShare ?? undefined,
+      budget: inputs.budget?.enabled ? typicalBudget(inputs.budget) : undefined,
+      sewerBillPerConnection: sewerBill ?? undefined,
+      customerBillPerConnection: surchargeLines
+        ? billPerConnection + surchargeLines.reduce((sum, value) => sum + value, 0)
+        : undefined,
     },
     warnings,
     validationMessage: validation.isValid ? undefined : validation.message,
     tiersUsed: tiers,
+    convergence,
+    meterRevenue: meters ? meterRevenueByMix(meters.sizes, baseFee, connections) : undefined,
+    sewerRevenue: sewerBill === null ? undefined : sewerBill * connections,
+    surchargeRevenue:
+      surchargeItems && surchargeLines
+        ? surchargeItems.map((item, idx) => ({ id: item.id, name: item.name, revenue: surchargeLines[idx] * connections }))
+        : undefined,
   }
 }
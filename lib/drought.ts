@@ -0,0 +1,156 @@
+import { BaselineAnchor, DemandResult, TierDefinition, calculateDemand } from "./demand"
+import { MonteCarloDraws, MonteCarloParams, runMonteCarloSimulation } from "./montecarlo"
+
+export type DroughtSurchargeKind = "perKgal" | "percent"
+
+export interface DroughtStage {
+  id: string
+  name: string
+  /**
+   * Mandated reduction in use (%) relative to normal conditions on the current rates
+   */
+  curtailmentPct: number
+  surchargeKind: DroughtSurchargeKind
+  /**
+   * $/kgal added to every tier, or % added to every tier price
+   */
+  surcharge: number
+  /**
+   * Multiplier on tier breaks during the stage; below 1 tightens the tiers
+   */
+  breakFactor: number
+}
+
+export interface DroughtSettings {
+  enabled: boolean
+  stages: DroughtStage[]
+}
+
+export const DROUGHT_SURCHARGE_LABELS: Record<DroughtSurchargeKind, string> = {
+  perKgal: "$/kgal",
+  percent: "% of price",
+}
+
+export const DEFAULT_DROUGHT_STAGES: DroughtStage[] = [
+  { id: "stage-1", name: "Stage 1", curtailmentPct: 10, surchargeKind: "perKgal", surcharge: 0.5, breakFactor: 1 },
+  { id: "stage-2", name: "Stage 2", curtailmentPct: 20, surchargeKind: "percent", surcharge: 15, breakFactor: 1 },
+  { id: "stage-3", name: "Stage 3", curtailmentPct: 30, surchargeKind: "percent", surcharge: 30, breakFactor: 0.8 },
+]
+
+export const DEFAULT_DROUGHT: DroughtSettings = {
+  enabled: false,
+  stages: DEFAULT_DROUGHT_STAGES,
+}
+
+/**
+ * Achieved reduction may fall short of the mandate by this much (percentage points)
+ * and still count as meeting it, so Monte Carlo noise does not flip the verdict.
+ */
+const TARGET_TOLERANCE_PCT = 0.1
+
+/**
+ * Stage schedule: breaks scaled by `breakFactor`, then the surcharge layered on every
+ * tier price.
+ */
+export const applyDroughtStage = (tiers: TierDefinition[], stage: DroughtStage): TierDefinition[] => {
+  const factor = Math.max(stage.breakFactor, 0.01)
+  return tiers.map((tier) => ({
+    lower: tier.lower * factor,
+    upper: tier.upper === null ? null : tier.upper * factor,
+    price:
+      stage.surchargeKind === "percent"
+        ? tier.price * (1 + Math.max(stage.surcharge, 0) / 100)
+        : tier.price + Math.max(stage.surcharge, 0),
+  }))
+}
+
+/**
+ * Curtailment shifts the demand curve: at the frozen reference price a household
+ * now wants (1 − c) × q0, and still responds to the stage's prices on top of that.
+ */
+export const curtailedAnchor = (anchor: BaselineAnchor, curtailmentPct: number): BaselineAnchor => ({
+  usage: anchor.usage * (1 - Math.min(Math.max(curtailmentPct, 0), 100) / 100),
+  perceivedPrice: anchor.perceivedPrice,
+})
+
+export interface DroughtParams extends Omit<MonteCarloParams, "draws"> {
+  draws: MonteCarloDraws | null
+  stages: DroughtStage[]
+}
+
+export interface DroughtStageResult {
+  id: string
+  name: string
+  curtailmentPct: number
+  tiers: TierDefinition[]
+  usageMG: number
+  revenue: number
+  /**
+   * Revenue lost to curtailment alone, billed on the normal schedule
+   */
+  revenueLost: number
+  /**
+   * Revenue the surcharge and tightened breaks win back from curtailed customers
+   */
+  revenueRecovered: number
+  netRevenueChange: number
+  /**
+   * Achieved reduction in use vs normal conditions (%), curtailment plus price response
+   */
+  achievedReductionPct: number
+  targetMet: boolean
+}
+
+export interface DroughtResult {
+  normalMG: number
+  normalRevenue: number
+  stages: DroughtStageResult[]
+  warnings: string[]
+}
+
+/**
+ * Runs each stage against normal conditions on the current schedule. Three runs per
+ * stage separate the effects: normal, curtailment on normal rates, and curtailment on
+ * the stage schedule. Figures are per representative month, like the main result.
+ */
+export const runDroughtSimulation = (params: DroughtParams): DroughtResult => {
+  const { stages, draws, ...base } = params
+  const warnings = new Set<string>()
+
+  const run = (tiers: TierDefinition[], anchor: BaselineAnchor): DemandResult =>
+    draws
+      ? runMonteCarloSimulation({ ...base, tiers, anchor, draws })
+      : calculateDemand({ ...base, elasticity: base.elasticityMean, tiers, baseline: anchor })
+
+  const normal = run(base.tiers, base.anchor)
+
+  const stageResults = stages.map((stage) => {
+    const anchor = curtailedAnchor(base.anchor, stage.curtailmentPct)
+    const stageTiers = applyDroughtStage(base.tiers, stage)
+    const curtailedOnly = run(base.tiers, anchor)
+    const result = run(stageTiers, anchor)
+    result.warnings.forEach((warning) => warnings.add(`${stage.name}: ${warning}`))
+
+    const achievedReductionPct = normal.usageMG > 0 ? (1 - result.usageMG / normal.usageMG) * 100 : 0
+    return {
+      id: stage.id,
+      name: stage.name,
+      curtailmentPct: stage.curtailmentPct,
+      tiers: stageTiers,
+      usageMG: result.usageMG,
+      revenue: result.revenue,
+      revenueLost: normal.revenue - curtailedOnly.revenue,
+      revenueRecovered: result.revenue - curtailedOnly.revenue,
+      netRevenueChange: result.revenue - normal.revenue,
+      achievedReductionPct,
+      targetMet: achievedReductionPct >= stage.curtailmentPct - TARGET_TOLERANCE_PCT,
+    }
+  })
+
+  return {
+    normalMG: normal.usageMG,
+    normalRevenue: normal.revenue,
+    stages: stageResults,
+    warnings: Array.from(warnings),
+  }
+}
@@ -0,0 +1,122 @@
+import { median } from "./analytics"
+import { computeVolumetricCharge } from "./demand"
+import { discountedCharges } from "./assistance"
+import { MonteCarloParams, MonteCarloResult, runMonteCarloSimulation } from "./montecarlo"
+
+export interface AdjustmentSettings {
+  enabled: boolean
+  years: number
+  shortRunElasticity: number
+  longRunElasticity: number
+  /**
+   * Share of the remaining gap to the long-run equilibrium closed each year (λ)
+   */
+  speed: number
+}
+
+export const DEFAULT_ADJUSTMENT: AdjustmentSettings = {
+  enabled: false,
+  years: 5,
+  shortRunElasticity: -0.1,
+  longRunElasticity: -0.3,
+  speed: 0.4,
+}
+
+export const MAX_ADJUSTMENT_YEARS = 30
+
+export interface AdjustmentParams extends MonteCarloParams {
+  settings: AdjustmentSettings
+}
+
+export interface AdjustmentYear {
+  year: number
+  /**
+   * Annual totals (12 × the representative month)
+   */
+  usageMG: number
+  revenue: number
+  medianUsage: number
+}
+
+export interface AdjustmentResult {
+  years: AdjustmentYear[]
+  shortRun: MonteCarloResult
+  longRun: MonteCarloResult
+  warnings: string[]
+}
+
+/**
+ * Re-targets the population's price response. With an indoor/outdoor split the
+ * component elasticities are scaled by the same ratio as the mean.
+ */
+const withElasticity = (params: MonteCarloParams, elasticity: number): MonteCarloParams => {
+  const ratio = params.elasticityMean !== 0 ? elasticity / params.elasticityMean : 1
+  return {
+    ...params,
+    elasticityMean: elasticity,
+    endUse: params.endUse?.enabled
+      ? {
+          ...params.endUse,
+          indoorElasticity: params.endUse.indoorElasticity * ratio,
+          outdoorElasticity: params.endUse.outdoorElasticity * ratio,
+        }
+      : params.endUse,
+  }
+}
+
+/**
+ * Partial adjustment after a rate change. Year 1 is the short-run response; after
+ * that each household closes a share λ of the remaining log gap to its long-run
+ * response: ln q_t = ln q_LR + (1 − λ)^(t − 1) (ln q_SR − ln q_LR). Both endpoints
+ * come from the same Monte Carlo population, so households are tracked one to one.
+ */
+export const runAdjustmentSimulation = (params: AdjustmentParams): AdjustmentResult => {
+  const { settings, ...base } = params
+  const years = Math.min(Math.max(Math.round(settings.years), 1), MAX_ADJUSTMENT_YEARS)
+  const speed = Math.min(Math.max(settings.speed, 0), 1)
+  const shortRun = runMonteCarloSimulation(withElasticity(base, settings.shortRunElasticity))
+  const longRun = runMonteCarloSimulation(withElasticity(base, settings.longRunElasticity))
+
+  const shortRunUsage = shortRun.samples.proposal
+  const longRunUsage = longRun.samples.proposal
+  const sampleCount = Math.min(shortRunUsage.length, longRunUsage.length)
+  const weight = sampleCount > 0 ? base.connections / sampleCount : 0
+
+  // Bill each household on the charges the Monte Carlo run resolved for it, with
+  // participants' assistance discount applied.
+  const { fixedCharges, tiers, participants } = shortRun.samples
+  const assistance = base.assistance?.enabled ? base.assistance : null
+  const charges = fixedCharges.map((fixedCharge, idx) =>
+    assistance && participants?.[idx]
+      ? discountedCharges(tiers[idx], fixedCharge, assistance)
+      : { tiers: tiers[idx], fixedCharge },
+  )
+  const trajectory: AdjustmentYear[] = []
+  for (let year = 1; year <= years; year++) {
+    const remaining = Math.pow(1 - speed, year - 1)
+    const usages: number[] = []
+    let usageSum = 0
+    let billSum = 0
+    for (let i = 0; i < sampleCount; i++) {
+      const usage = longRunUsage[i] * Math.pow(shortRunUsage[i] / longRunUsage[i], remaining)
+      usages.push(usage)
+      usageSum += usage
+      billSum += charges[i].fixedCharge + computeVolumetricCharge(usage, charges[i].tiers)
+    }
+    trajectory.push({
+      year,
+      usageMG: (12 * usageSum * weight) / 1000,
+      revenue: 12 * billSum * weight,
+      medianUsage: median(usages),
+    })
+  }
+
+  const warnings = new Set<string>()
+  shortRun.warnings.forEach((warning) => warnings.add(`Short run: ${warning}`))
+  longRun.warnings.forEach((warning) => warnings.add(`Long run: ${warning}`))
+  if (Math.abs(settings.shortRunElasticity) > Math.abs(settings.longRunElasticity)) {
+    warnings.add("Short-run elasticity is larger than long-run; adjustment usually grows over time.")
+  }
+
+  return { years: trajectory, shortRun, longRun, warnings: Array.from(warnings) }
+}
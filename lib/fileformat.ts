@@ -0,0 +1,202 @@
+import { DemandResult, normalizeTiers, validateTiers } from "./demand"
+import { ELASTICITY_DIVERSITY, MONTE_CARLO_SAMPLE_SIZE } from "./montecarlo"
+import { ScenarioState, sanitizeScenario } from "./scenario"
+
+export const SCENARIO_FILE_FORMAT = "water-rate-scenario"
+export const SCENARIO_FILE_VERSION = 1
+
+export interface ScenarioResultsSummary {
+  usageMG: number
+  revenue: number
+  medianUsage: number
+  medianBill: number
+  warnings: string[]
+}
+
+/**
+ * Scenario file, version 1.
+ *
+ * - `format` / `version`: identify the file; newer versions are rejected, older ones migrated.
+ * - `scenario`: every simulator input (`ScenarioState`): `tiers` (`TierDefinition[]`, contiguous
+ *   from 0 with an open-ended last tier), `baseFee`, demand parameters, `anchor`
+ *   (`BaselineAnchor` or null) and `seed`. Quantities are in kgal, $/kgal and MG whatever
+ *   display `units` the scenario carries.
+ * - `monteCarlo`: sampling settings the results were produced with.
+ * - `results`: informational summary at export time; ignored on import.
+ *
+ * Version 0 is the bare `ScenarioState` object kept in the URL hash and the browser library.
+ */
+export interface ScenarioFile {
+  format: typeof SCENARIO_FILE_FORMAT
+  version: typeof SCENARIO_FILE_VERSION
+  name?: string
+  exportedAt: string
+  scenario: ScenarioState
+  monteCarlo: {
+    seed: number
+    sampleSize: number
+    elasticityDiversity: number
+  }
+  results?: ScenarioResultsSummary
+}
+
+export type ScenarioFileParseResult =
+  | { ok: true; file: ScenarioFile; scenario: ScenarioState; migratedFrom: number | null }
+  | { ok: false; errors: string[] }
+
+type UnknownRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const MIGRATIONS: Record<number, (raw: UnknownRecord) => UnknownRecord> = {
+  0: (raw) => ({
+    format: SCENARIO_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date(0).toISOString(),
+    scenario: raw,
+    monteCarlo: {
+      seed: raw.seed,
+      sampleSize: MONTE_CARLO_SAMPLE_SIZE,
+      elasticityDiversity: ELASTICITY_DIVERSITY,
+    },
+  }),
+}
+
+export const summarizeResults = (result: DemandResult): ScenarioResultsSummary => ({
+  usageMG: result.usageMG,
+  revenue: result.revenue,
+  medianUsage: result.trace.perConnectionUsage,
+  medianBill: result.trace.billPerConnection,
+  warnings: result.warnings,
+})
+
+export const buildScenarioFile = (scenario: ScenarioState, results?: ScenarioResultsSummary, name?: string): ScenarioFile => ({
+  format: SCENARIO_FILE_FORMAT,
+  version: SCENARIO_FILE_VERSION,
+  ...(name ? { name } : {}),
+  exportedAt: new Date().toISOString(),
+  scenario,
+  monteCarlo: {
+    seed: scenario.seed,
+    sampleSize: MONTE_CARLO_SAMPLE_SIZE,
+    elasticityDiversity: ELASTICITY_DIVERSITY,
+  },
+  ...(results ? { results } : {}),
+})
+
+export const serializeScenarioFile = (file: ScenarioFile) => JSON.stringify(file, null, 2)
+
+const detectVersion = (raw: UnknownRecord): number | null => {
+  if (raw.format === undefined && Array.isArray(raw.tiers)) return 0
+  if (raw.format !== SCENARIO_FILE_FORMAT) return null
+  return typeof raw.version === "number" && Number.isInteger(raw.version) ? raw.version : null
+}
+
+const requireNumber = (errors: string[], source: UnknownRecord, key: string, label: string, min?: number) => {
+  const value = source[key]
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push(`${label} must be a number.`)
+  } else if (min !== undefined && value < min) {
+    errors.push(`${label} must be at least ${min}.`)
+  }
+}
+
+const checkTiers = (errors: string[], value: unknown, label: string) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${label} must be an array of tiers.`)
+    return
+  }
+  const malformed = value.findIndex(
+    (tier) =>
+      !isRecord(tier) ||
+      typeof tier.lower !== "number" ||
+      !(tier.upper === null || typeof tier.upper === "number") ||
+      typeof tier.price !== "number",
+  )
+  if (malformed >= 0) {
+    errors.push(`${label} tier ${malformed + 1} needs numeric lower, upper (or null) and price.`)
+    return
+  }
+  const validation = validateTiers(normalizeTiers(value))
+  if (!validation.isValid) {
+    errors.push(`${label}: ${validation.message}`)
+  }
+}
+
+/**
+ * Validates and migrates a scenario file. Structural problems are reported as
+ * readable messages; optional sections missing from the file fall back to defaults.
+ */
+export const parseScenarioFile = (text: string): ScenarioFileParseResult => {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: ["File is not valid JSON."] }
+  }
+  if (!isRecord(raw)) {
+    return { ok: false, errors: ["File must contain a JSON object."] }
+  }
+
+  const version = detectVersion(raw)
+  if (version === null) {
+    return { ok: false, errors: [`Not a scenario file (expected "format": "${SCENARIO_FILE_FORMAT}" with a version).`] }
+  }
+  if (version > SCENARIO_FILE_VERSION) {
+    return {
+      ok: false,
+      errors: [`Scenario file version ${version} is newer than this simulator supports (${SCENARIO_FILE_VERSION}).`],
+    }
+  }
+
+  let migrated = raw
+  for (let current = version; current < SCENARIO_FILE_VERSION; current++) {
+    const migrate = MIGRATIONS[current]
+    if (!migrate) {
+      return { ok: false, errors: [`No migration available from scenario file version ${current}.`] }
+    }
+    migrated = migrate(migrated)
+  }
+
+  const errors: string[] = []
+  const scenario = migrated.scenario
+  if (!isRecord(scenario)) {
+    return { ok: false, errors: ["Missing \"scenario\" section."] }
+  }
+
+  checkTiers(errors, scenario.tiers, "Tiers")
+  requireNumber(errors, scenario, "baseFee", "Base fee", 0)
+  requireNumber(errors, scenario, "connections", "Connections", 0)
+  requireNumber(errors, scenario, "elasticity", "Elasticity")
+  if (scenario.anchor !== undefined && scenario.anchor !== null) {
+    const anchor = scenario.anchor
+    if (!isRecord(anchor) || typeof anchor.usage !== "number" || typeof anchor.perceivedPrice !== "number") {
+      errors.push("Baseline anchor must be null or have numeric usage and perceivedPrice.")
+    }
+  }
+  if (isRecord(scenario.classes) && Array.isArray(scenario.classes.list)) {
+    scenario.classes.list.forEach((cls, idx) => {
+      const label = isRecord(cls) && typeof cls.name === "string" ? cls.name : `Class ${idx + 1}`
+      if (!isRecord(cls)) {
+        errors.push(`${label} must be an object.`)
+        return
+      }
+      checkTiers(errors, cls.tiers, `${label} tiers`)
+    })
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  const monteCarlo = isRecord(migrated.monteCarlo) ? migrated.monteCarlo : {}
+  const sanitized = sanitizeScenario({ ...scenario, seed: scenario.seed ?? monteCarlo.seed })
+  const file: ScenarioFile = {
+    ...buildScenarioFile(sanitized, undefined, typeof migrated.name === "string" ? migrated.name : undefined),
+    exportedAt: typeof migrated.exportedAt === "string" ? migrated.exportedAt : new Date(0).toISOString(),
+    ...(isRecord(migrated.results) ? { results: migrated.results as unknown as ScenarioResultsSummary } : {}),
+  }
+
+  return { ok: true, file, scenario: sanitized, migratedFrom: version < SCENARIO_FILE_VERSION ? version : null }
+}
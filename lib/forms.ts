@@ -0,0 +1,231 @@
+import { DEFAULT_UNITS, formatUsage, type UnitSettings } from "./units"
+
+/**
+ * Demand functional forms. Every form is calibrated to pass through the household's
+ * baseline anchor (q0 at reference price P0); ε is the price elasticity at that point
+ * for constant, linear and log-linear, and applies to discretionary use for Stone–Geary.
+ */
+export type DemandFormId = "constant" | "linear" | "stoneGeary" | "logLinear"
+
+export interface DemandFormSettings {
+  id: DemandFormId
+  /**
+   * Stone–Geary non-discretionary minimum use γ (kgal/month) that does not respond to price
+   */
+  minimumUse: number
+  /**
+   * Log-linear income elasticity η
+   */
+  incomeElasticity: number
+  /**
+   * Log-linear household income relative to the baseline period (Y/Y0)
+   */
+  incomeRatio: number
+}
+
+export interface DemandForm {
+  /**
+   * Usage at `price` for a household anchored at (baselineUsage, referencePrice)
+   */
+  usage: (price: number, baselineUsage: number, referencePrice: number, elasticity: number) => number
+  /**
+   * Integral of inverse demand up to `usage`, up to a constant. Only differences between
+   * candidate usages matter, so the kinked engine can compare utilities across forms.
+   */
+  benefit: (usage: number, baselineUsage: number, referencePrice: number, elasticity: number) => number
+}
+
+export const DEFAULT_DEMAND_FORM: DemandFormSettings = {
+  id: "constant",
+  minimumUse: 2,
+  incomeElasticity: 0.3,
+  incomeRatio: 1,
+}
+
+export const DEMAND_FORM_LABELS: Record<DemandFormId, string> = {
+  constant: "Constant elasticity",
+  linear: "Linear",
+  stoneGeary: "Stone–Geary",
+  logLinear: "Log-linear with income",
+}
+
+export const DEMAND_FORM_EQUATIONS: Record<DemandFormId, string> = {
+  constant: "q = q0 (P/P0)^ε",
+  linear: "q = q0 [1 + ε (P/P0 − 1)]",
+  stoneGeary: "q = γ + (q0 − γ)(P/P0)^ε",
+  logLinear: "ln q = ln q0 + (ε/P0)(P − P0) + η ln(Y/Y0)",
+}
+
+const MIN_DISCRETIONARY = 1e-9
+
+const constantBenefit = (usage: number, baselineUsage: number, referencePrice: number, elasticity: number) => {
+  const exponent = 1 + 1 / elasticity
+  const scale = referencePrice * Math.pow(baselineUsage, -1 / elasticity)
+  return Math.abs(exponent) < 1e-9 ? scale * Math.log(usage) : (scale * Math.pow(usage, exponent)) / exponent
+}
+
+const constantElasticity: DemandForm = {
+  usage: (price, baselineUsage, referencePrice, elasticity) => baselineUsage * Math.pow(price / referencePrice, elasticity),
+  benefit: constantBenefit,
+}
+
+const linear: DemandForm = {
+  usage: (price, baselineUsage, referencePrice, elasticity) =>
+    baselineUsage * (1 + elasticity * (price / referencePrice - 1)),
+  benefit: (usage, baselineUsage, referencePrice, elasticity) =>
+    referencePrice * (usage + ((usage * usage) / (2 * baselineUsage) - usage) / elasticity),
+}
+
+const stoneGeary = (minimumUse: number): DemandForm => {
+  // A household whose baseline sits below γ keeps a sliver of discretionary use so
+  // the form stays well defined; its response is negligible either way.
+  const floorFor = (baselineUsage: number) => Math.min(Math.max(minimumUse, 0), baselineUsage * 0.999)
+  return {
+    usage: (price, baselineUsage, referencePrice, elasticity) => {
+      const floor = floorFor(baselineUsage)
+      return floor + (baselineUsage - floor) * Math.pow(price / referencePrice, elasticity)
+    },
+    benefit: (usage, baselineUsage, referencePrice, elasticity) => {
+      const floor = floorFor(baselineUsage)
+      return constantBenefit(Math.max(usage - floor, MIN_DISCRETIONARY), baselineUsage - floor, referencePrice, elasticity)
+    },
+  }
+}
+
+const logLinear = (incomeElasticity: number, incomeRatio: number): DemandForm => {
+  const incomeShift = incomeElasticity * Math.log(Math.max(incomeRatio, 1e-6))
+  return {
+    usage: (price, baselineUsage, referencePrice, elasticity) =>
+      baselineUsage * Math.exp((elasticity / referencePrice) * (price - referencePrice) + incomeShift),
+    benefit: (usage, baselineUsage, referencePrice, elasticity) => {
+      const slope = elasticity / referencePrice
+      return referencePrice * usage + (usage * Math.log(usage / baselineUsage) - usage - incomeShift * usage) / slope
+    },
+  }
+}
+
+export const createDemandForm = (settings: DemandFormSettings = DEFAULT_DEMAND_FORM): DemandForm => {
+  switch (settings.id) {
+    case "linear":
+      return linear
+    case "stoneGeary":
+      return stoneGeary(settings.minimumUse)
+    case "logLinear":
+      return logLinear(settings.incomeElasticity, settings.incomeRatio)
+    default:
+      return constantElasticity
+  }
+}
+
+export const describeDemandForm = (
+  settings: DemandFormSettings = DEFAULT_DEMAND_FORM,
+  units: UnitSettings = DEFAULT_UNITS,
+): string => {
+  const label = DEMAND_FORM_LABELS[settings.id] ?? DEMAND_FORM_LABELS.constant
+  if (settings.id === "stoneGeary") {
+    return `${label} (γ = ${formatUsage(settings.minimumUse, units)})`
+  }
+  if (settings.id === "logLinear") {
+    return `${label} (η = ${settings.incomeElasticity.toFixed(2)}, Y/Y0 = ${settings.incomeRatio.toFixed(2)})`
+  }
+  return label
+}
+
+/**
+ * Indoor/outdoor split for one household: the baseline is divided by `outdoorShare`
+ * and each component follows the base form with its own elasticity at the same
+ * perceived price.
+ */
+export interface EndUseSplit {
+  outdoorShare: number
+  indoorElasticity: number
+  outdoorElasticity: number
+}
+
+export interface SplitDemandForm extends DemandForm {
+  /**
+   * Outdoor part of `usage`, allocated where both components' marginal values are equal
+   */
+  outdoorUsage: (usage: number, baselineUsage: number, referencePrice: number) => number
+}
+
+const PRICE_SEARCH_ITERATIONS = 40
+const PRICE_SEARCH_SPAN = 1e4
+
+/**
+ * Wraps a form so a household's demand is indoor + outdoor. The elasticity argument
+ * of the wrapped functions is ignored in favour of the split's own elasticities.
+ */
+export const splitDemandForm = (form: DemandForm, split: EndUseSplit): SplitDemandForm => {
+  const share = Math.min(Math.max(split.outdoorShare, 0), 1)
+  const indoorAt = (price: number, baselineUsage: number, referencePrice: number) =>
+    share >= 1 ? 0 : form.usage(price, baselineUsage * (1 - share), referencePrice, split.indoorElasticity)
+  const outdoorAt = (price: number, baselineUsage: number, referencePrice: number) =>
+    share <= 0 ? 0 : form.usage(price, baselineUsage * share, referencePrice, split.outdoorElasticity)
+  const totalAt = (price: number, baselineUsage: number, referencePrice: number) =>
+    indoorAt(price, baselineUsage, referencePrice) + outdoorAt(price, baselineUsage, referencePrice)
+
+  // Inverse of aggregate demand: the common price at which the components sum to `usage`.
+  const priceFor = (usage: number, baselineUsage: number, referencePrice: number) => {
+    let lower = Math.log(referencePrice / PRICE_SEARCH_SPAN)
+    let upper = Math.log(referencePrice * PRICE_SEARCH_SPAN)
+    for (let i = 0; i < PRICE_SEARCH_ITERATIONS; i++) {
+      const mid = (lower + upper) / 2
+      if (totalAt(Math.exp(mid), baselineUsage, referencePrice) > usage) {
+        lower = mid
+      } else {
+        upper = mid
+      }
+    }
+    return Math.exp((lower + upper) / 2)
+  }
+
+  return {
+    usage: (price, baselineUsage, referencePrice) => totalAt(price, baselineUsage, referencePrice),
+    benefit: (usage, baselineUsage, referencePrice) => {
+      const price = priceFor(usage, baselineUsage, referencePrice)
+      const indoor = Math.max(indoorAt(price, baselineUsage, referencePrice), MIN_DISCRETIONARY)
+      const outdoor = Math.max(outdoorAt(price, baselineUsage, referencePrice), MIN_DISCRETIONARY)
+      const indoorBenefit =
+        share >= 1 ? 0 : form.benefit(indoor, baselineUsage * (1 - share), referencePrice, split.indoorElasticity)
+      const outdoorBenefit = share <= 0 ? 0 : form.benefit(outdoor, baselineUsage * share, referencePrice, split.outdoorElasticity)
+      return indoorBenefit + outdoorBenefit
+    },
+    outdoorUsage: (usage, baselineUsage, referencePrice) => {
+      const price = priceFor(usage, baselineUsage, referencePrice)
+      const indoor = Math.max(indoorAt(price, baselineUsage, referencePrice), 0)
+      const outdoor = Math.max(outdoorAt(price, baselineUsage, referencePrice), 0)
+      return indoor + outdoor > 0 ? (usage * outdoor) / (indoor + outdoor) : 0
+    },
+  }
+}
+
+/**
+ * Scenario-level indoor/outdoor settings. Each household's outdoor share is drawn
+ * around `outdoorShare` on the logit scale and rises with baseline use, so heavy
+ * users are mostly irrigating.
+ */
+export interface EndUseSettings {
+  enabled: boolean
+  outdoorShare: number
+  shareSpread: number
+  indoorElasticity: number
+  outdoorElasticity: number
+}
+
+/**
+ * Least price-responsive elasticity a household or end-use component may have, so
+ * demand always slopes down
+ */
+export const ELASTICITY_MAX = -0.05
+
+export const clampEndUseElasticity = (value: number) =>
+  Number.isFinite(value) ? Math.min(value, ELASTICITY_MAX) : ELASTICITY_MAX
+
+export const DEFAULT_END_USE: EndUseSettings = {
+  enabled: false,
+  outdoorShare: 0.3,
+  shareSpread: 0.5,
+  indoorElasticity: -0.1,
+  outdoorElasticity: -0.45,
+}
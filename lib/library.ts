@@ -0,0 +1,96 @@
+import { ScenarioState, sanitizeScenario } from "./scenario"
+
+export const SCENARIO_LIBRARY_KEY = "water-rate-simulator:scenarios:v1"
+
+export interface SavedScenario {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  scenario: ScenarioState
+}
+
+const createId = () => `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+const getStorage = (): Storage | null => {
+  if (typeof window === "undefined") return null
+  try {
+    return window.localStorage
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads the saved library. Entries that fail to parse are dropped and every stored
+ * scenario is re-sanitized so older records pick up defaults for newer inputs.
+ */
+export const loadScenarioLibrary = (storage: Storage | null = getStorage()): SavedScenario[] => {
+  if (!storage) return []
+  try {
+    const raw = JSON.parse(storage.getItem(SCENARIO_LIBRARY_KEY) ?? "[]")
+    if (!Array.isArray(raw)) return []
+    return raw
+      .filter((entry) => typeof entry === "object" && entry !== null && typeof entry.id === "string")
+      .map((entry) => ({
+        id: entry.id,
+        name: typeof entry.name === "string" ? entry.name : "Untitled scenario",
+        createdAt: typeof entry.createdAt === "string" ? entry.createdAt : new Date(0).toISOString(),
+        updatedAt: typeof entry.updatedAt === "string" ? entry.updatedAt : new Date(0).toISOString(),
+        scenario: sanitizeScenario(entry.scenario),
+      }))
+  } catch {
+    return []
+  }
+}
+
+export const persistScenarioLibrary = (entries: SavedScenario[], storage: Storage | null = getStorage()): boolean => {
+  if (!storage) return false
+  try {
+    storage.setItem(SCENARIO_LIBRARY_KEY, JSON.stringify(entries))
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const addScenario = (entries: SavedScenario[], name: string, scenario: ScenarioState): SavedScenario[] => {
+  const now = new Date().toISOString()
+  return [
+    ...entries,
+    { id: createId(), name: name.trim() || `Scenario ${entries.length + 1}`, createdAt: now, updatedAt: now, scenario },
+  ]
+}
+
+export const renameScenario = (entries: SavedScenario[], id: string, name: string): SavedScenario[] => {
+  const trimmed = name.trim()
+  if (!trimmed) return entries
+  return entries.map((entry) =>
+    entry.id === id ? { ...entry, name: trimmed, updatedAt: new Date().toISOString() } : entry,
+  )
+}
+
+export const duplicateScenario = (entries: SavedScenario[], id: string): SavedScenario[] => {
+  const source = entries.find((entry) => entry.id === id)
+  if (!source) return entries
+  const now = new Date().toISOString()
+  const copy: SavedScenario = {
+    ...source,
+    id: createId(),
+    name: `${source.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  }
+  const index = entries.indexOf(source)
+  return [...entries.slice(0, index + 1), copy, ...entries.slice(index + 1)]
+}
+
+export const overwriteScenario = (entries: SavedScenario[], id: string, scenario: ScenarioState): SavedScenario[] => {
+  return entries.map((entry) =>
+    entry.id === id ? { ...entry, scenario, updatedAt: new Date().toISOString() } : entry,
+  )
+}
+
+export const deleteScenario = (entries: SavedScenario[], id: string): SavedScenario[] => {
+  return entries.filter((entry) => entry.id !== id)
+}
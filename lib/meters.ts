@@ -0,0 +1,144 @@
+/**
+ * Meter-size fixed charges. Each size's monthly charge is the base fee scaled by its
+ * AWWA M1 hydraulic capacity ratio (5/8" = 1), unless a charge is set directly.
+ */
+export interface MeterSize {
+  id: string
+  label: string
+  connections: number
+  ratio: number
+  /**
+   * Direct monthly charge ($); null scales the base fee by `ratio`
+   */
+  charge: number | null
+}
+
+export interface MeterSettings {
+  enabled: boolean
+  sizes: MeterSize[]
+}
+
+export const AWWA_METER_RATIOS: Record<string, number> = {
+  "5/8": 1,
+  "3/4": 1.5,
+  "1": 2.5,
+  "1.5": 5,
+  "2": 8,
+  "3": 16,
+  "4": 25,
+  "6": 50,
+}
+
+const meterSize = (id: string, connections: number): MeterSize => ({
+  id,
+  label: `${id}"`,
+  connections,
+  ratio: AWWA_METER_RATIOS[id],
+  charge: null,
+})
+
+export const DEFAULT_METER_SIZES: MeterSize[] = [
+  meterSize("5/8", 700),
+  meterSize("3/4", 200),
+  meterSize("1", 80),
+  meterSize("1.5", 15),
+  meterSize("2", 5),
+  meterSize("3", 0),
+  meterSize("4", 0),
+  meterSize("6", 0),
+]
+
+export const DEFAULT_METERS: MeterSettings = {
+  enabled: false,
+  sizes: DEFAULT_METER_SIZES,
+}
+
+/**
+ * Correlation between a household's usage draw and its meter draw; heavy users tend
+ * to have larger meters without the assignment being a strict usage ranking.
+ */
+const METER_USAGE_CORRELATION = 0.7
+
+export const meterCharge = (size: MeterSize, baseFee: number) => size.charge ?? baseFee * Math.max(size.ratio, 0)
+
+/**
+ * Meter table and the meter (index into `sizes`) each simulated household was given
+ */
+export interface MeterAssignment {
+  sizes: MeterSize[]
+  households: number[]
+}
+
+/**
+ * Fixed charge household `idx` pays under a schedule with base fee `baseFee`.
+ */
+export const householdMeterCharge = (assignment: MeterAssignment | undefined, idx: number, baseFee: number) =>
+  assignment ? meterCharge(assignment.sizes[assignment.households[idx]], baseFee) : baseFee
+
+export const meterShares = (sizes: MeterSize[]): number[] => {
+  const total = sizes.reduce((sum, size) => sum + Math.max(size.connections, 0), 0)
+  return sizes.map((size) => (total > 0 ? Math.max(size.connections, 0) / total : 0))
+}
+
+/**
+ * Mix-weighted fixed charge, for runs that model a single representative household.
+ */
+export const averageMeterCharge = (sizes: MeterSize[], baseFee: number) => {
+  const shares = meterShares(sizes)
+  return shares.some((share) => share > 0)
+    ? sizes.reduce((sum, size, idx) => sum + shares[idx] * meterCharge(size, baseFee), 0)
+    : baseFee
+}
+
+/**
+ * Gives each simulated household a meter (index into `sizes`): households are ranked
+ * on a score correlated with their usage draw and filled smallest-meter-first in
+ * proportion to the connection counts.
+ */
+export const assignMeterSizes = (usageSeeds: number[], sizes: MeterSize[], meterSeeds: number[] = []): number[] => {
+  const shares = meterShares(sizes)
+  const count = usageSeeds.length
+  const rho = METER_USAGE_CORRELATION
+  const scores = usageSeeds.map((z, idx) => rho * z + Math.sqrt(1 - rho * rho) * (meterSeeds[idx] ?? 0))
+  const order = scores.map((_, idx) => idx).sort((a, b) => scores[a] - scores[b])
+  const assignments = new Array<number>(count).fill(0)
+  let sizeIndex = 0
+  let cumulative = shares[0] ?? 1
+  order.forEach((sampleIndex, rank) => {
+    while (sizeIndex < shares.length - 1 && (rank + 0.5) / count > cumulative) {
+      sizeIndex++
+      cumulative += shares[sizeIndex]
+    }
+    assignments[sampleIndex] = sizeIndex
+  })
+  return assignments
+}
+
+export interface MeterRevenue {
+  id: string
+  label: string
+  connections: number
+  charge: number
+  revenue: number
+}
+
+/**
+ * Fixed revenue by meter size for `connections` connections split in the table's mix.
+ */
+export const meterRevenueByMix = (sizes: MeterSize[], baseFee: number, connections: number): MeterRevenue[] => {
+  const shares = meterShares(sizes)
+  return sizes.map((size, idx) => {
+    const charge = meterCharge(size, baseFee)
+    const sizeConnections = shares[idx] * connections
+    return { id: size.id, label: size.label, connections: sizeConnections, charge, revenue: sizeConnections * charge }
+  })
+}
+
+export const meterCountWarning = (sizes: MeterSize[], connections: number): string | null => {
+  const total = sizes.reduce((sum, size) => sum + Math.max(size.connections, 0), 0)
+  if (total <= 0) return "Meter table has no connections; every account is billed the base fee."
+  if (Math.abs(total - connections) > 0.5) {
+    return `Meter table lists ${Math.round(total)} connections vs ${Math.round(connections)} simulated; its mix is scaled to the simulated total.`
+  }
+  return null
+}
@@ -1,21 +1,42 @@
 import {
   BaselineAnchor,
+  ConvergenceSummary,
+  DemandModelOptions,
   DemandResult,
   TierDefinition,
+  applyAllowance,
   clampUsage,
   computeAveragePrice,
   computeMarginalPrice,
-  computePerceivedPrice,
+  computeReferencePrice,
   computeVolumetricCharge,
-  solveUsage,
+  convergenceWarning,
+  describePerception,
+  outdoorChangeShare,
+  solveHouseholdUsage,
   MIN_USAGE,
   MAX_USAGE,
 } from "./demand"
+import { ELASTICITY_MAX, EndUseSettings, EndUseSplit, clampEndUseElasticity, describeDemandForm } from "./forms"
+import { buildHouseholdBudgets, resolveBudgetTiers, scheduleTiers } from "./budget"
+import { MeterRevenue, assignMeterSizes, averageMeterCharge, meterCharge, meterCountWarning, meterShares } from "./meters"
+import { computeSewerCharge, winterAverageUsage } from "./sewer"
+import { AssistanceResult, assignParticipants, discountedCharges } from "./assistance"
+import { SurchargeRevenue, computeSurchargeLines } from "./surcharges"
 
 const SAMPLE_SIZE = 3000
 const ELASTICITY_STD = 0.05
 const ELASTICITY_MIN = -0.4
-const ELASTICITY_MAX = -0.05
+const DEFAULT_SEED = 20240601
+const OUTDOOR_STREAM = 0x9e3779b9
+const BUDGET_STREAM = 0x85ebca6b
+const METER_STREAM = 0xc2b2ae35
+const ASSISTANCE_STREAM = 0x27d4eb2f
+const OUTDOOR_SHARE_MAX = 0.95
+/**
+ * Logit-scale increase in outdoor share per unit of log(q0 / anchor usage)
+ */
+const OUTDOOR_USAGE_LOADING = 1
 
 export interface MonteCarloDraws {
   /**
@@ -26,11 +47,39 @@ export interface MonteCarloDraws {
    * Standard normal draws used to perturb the average elasticity slider
    */
   eps: number[]
+  /**
+   * Standard normal draws for each household's outdoor share. Drawn from a separate
+   * stream so q0/eps for a given seed are unchanged; absent in older draw sets.
+   */
+  outdoor?: number[]
+  /**
+   * Standard normal draws for household size and irrigable area (water-budget rates),
+   * from their own stream for the same reason
+   */
+  persons?: number[]
+  area?: number[]
+  /**
+   * Standard normal draws blended with q0 to assign meter sizes
+   */
+  meter?: number[]
+  /**
+   * Standard normal draws for assistance-program eligibility and enrollment
+   */
+  eligibility?: number[]
+  enrollment?: number[]
+  /**
+   * PRNG seed the draws were generated from; the same seed always yields the same draws
+   */
+  seed: number
 }
 
-export interface MonteCarloParams {
+export interface MonteCarloParams extends DemandModelOptions {
   connections: number
   baseFee: number
+  /**
+   * Usage (kgal) included in the base fee
+   */
+  allowance?: number
   tiers: TierDefinition[]
   anchor: BaselineAnchor
   draws: MonteCarloDraws
@@ -40,22 +89,60 @@ export interface MonteCarloParams {
   billSalience: number
 }
 
-const gaussian = () => {
+export type RandomSource = () => number
+
+export const normalizeSeed = (seed: number) => (Number.isFinite(seed) ? Math.abs(Math.trunc(seed)) >>> 0 : DEFAULT_SEED)
+
+/**
+ * mulberry32: small, fast 32-bit PRNG returning uniforms in [0, 1).
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = normalizeSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0
+
+const gaussian = (random: RandomSource) => {
   let u = 0
   let v = 0
-  while (u === 0) u = Math.random()
-  while (v === 0) v = Math.random()
+  while (u === 0) u = random()
+  while (v === 0) v = random()
   return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v)
 }
 
-export const generateMonteCarloDraws = (count = SAMPLE_SIZE): MonteCarloDraws => {
+export const generateMonteCarloDraws = (count = SAMPLE_SIZE, seed = DEFAULT_SEED): MonteCarloDraws => {
+  const normalizedSeed = normalizeSeed(seed)
+  const random = createSeededRandom(normalizedSeed)
+  const outdoorRandom = createSeededRandom(normalizedSeed ^ OUTDOOR_STREAM)
+  const budgetRandom = createSeededRandom(normalizedSeed ^ BUDGET_STREAM)
+  const meterRandom = createSeededRandom(normalizedSeed ^ METER_STREAM)
+  const assistanceRandom = createSeededRandom(normalizedSeed ^ ASSISTANCE_STREAM)
   const q0: number[] = []
   const eps: number[] = []
+  const outdoor: number[] = []
+  const persons: number[] = []
+  const area: number[] = []
+  const meter: number[] = []
+  const eligibility: number[] = []
+  const enrollment: number[] = []
   for (let i = 0; i < count; i++) {
-    q0.push(gaussian())
-    eps.push(gaussian())
+    q0.push(gaussian(random))
+    eps.push(gaussian(random))
+    outdoor.push(gaussian(outdoorRandom))
+    persons.push(gaussian(budgetRandom))
+    area.push(gaussian(budgetRandom))
+    meter.push(gaussian(meterRandom))
+    eligibility.push(gaussian(assistanceRandom))
+    enrollment.push(gaussian(assistanceRandom))
   }
-  return { q0, eps }
+  return { q0, eps, outdoor, persons, area, meter, eligibility, enrollment, seed: normalizedSeed }
 }
 
 const percentile = (sortedValues: number[], p: number) => {
@@ -78,10 +165,55 @@ export const buildUsageDraws = (anchorUsage: number, usageVar: number, seeds: nu
   return seeds.map((z) => clampUsage(Math.exp(mu + sigma * z)))
 }
 
+const logit = (p: number) => Math.log(p / (1 - p))
+
+/**
+ * Per-household outdoor share of baseline use: logit(share) = logit(mean) +
+ * loading × ln(q0 / anchor) + spread × z, so heavier users irrigate more.
+ */
+export const buildOutdoorShares = (
+  baselineUsages: number[],
+  anchorUsage: number,
+  settings: EndUseSettings,
+  seeds: number[] = [],
+): number[] => {
+  const mean = Math.min(Math.max(settings.outdoorShare, 0.001), OUTDOOR_SHARE_MAX)
+  const spread = Math.max(settings.shareSpread, 0)
+  return baselineUsages.map((usage, idx) => {
+    const z = seeds[idx] ?? 0
+    const score = logit(mean) + OUTDOOR_USAGE_LOADING * Math.log(usage / Math.max(anchorUsage, MIN_USAGE)) + spread * z
+    return Math.min(1 / (1 + Math.exp(-score)), OUTDOOR_SHARE_MAX)
+  })
+}
+
 export interface MonteCarloSamples {
   baseline: number[]
   proposal: number[]
   eps: number[]
+  /**
+   * Outdoor component of baseline/proposal usage when the end-use split is on
+   */
+  outdoorBaseline?: number[]
+  outdoorProposal?: number[]
+  /**
+   * Each household's water budget (kgal) when tiers are budget-based
+   */
+  budgets?: number[]
+  /**
+   * Each household's meter (index into the meter table) when meter charges are on
+   */
+  meterSizes?: number[]
+  /**
+   * Fixed charge and kgal tiers each household is billed before any assistance
+   * discount, with its meter, budget breaks and allowance resolved
+   */
+  fixedCharges: number[]
+  tiers: TierDefinition[][]
+  /**
+   * Proposal water bill per household and assistance enrollment, when the program is on
+   */
+  bills?: number[]
+  participants?: boolean[]
 }
 
 export interface MonteCarloResult extends DemandResult {
@@ -103,6 +235,8 @@ export const runMonteCarloSimulation = (params: MonteCarloParams): MonteCarloRes
         averagePrice: 0,
         perceivedPrice: 0,
         billPerConnection: params.baseFee,
+        demandForm: describeDemandForm(params.form),
+        perception: describePerception(params),
       },
       warnings: ["Baseline has not been established yet."],
       validationMessage: params.validationMessage,
@@ -111,30 +245,113 @@ export const runMonteCarloSimulation = (params: MonteCarloParams): MonteCarloRes
         baseline: [],
         proposal: [],
         eps: [],
+        fixedCharges: [],
+        tiers: [],
       },
     }
   }
 
   const baselineUsages = buildUsageDraws(params.anchor.usage, params.usageVar, params.draws.q0)
+  const endUse = params.endUse?.enabled ? params.endUse : null
+  const outdoorShares = endUse ? buildOutdoorShares(baselineUsages, params.anchor.usage, endUse, params.draws.outdoor) : null
+  const budgets = params.budget?.enabled
+    ? buildHouseholdBudgets(params.draws.q0.slice(0, sampleCount), params.budget, params.draws.persons, params.draws.area).budgets
+    : null
+  // Typical-household schedule for the trace prices; budget households get their own below.
+  const traceTiers = applyAllowance(scheduleTiers(params.tiers, params.budget), params.allowance)
+  const meterTable = params.meters?.enabled && meterShares(params.meters.sizes).some((share) => share > 0) ? params.meters.sizes : null
+  const meterSizes = meterTable ? assignMeterSizes(params.draws.q0.slice(0, sampleCount), meterTable, params.draws.meter) : null
+  const meterCharges = meterTable ? meterTable.map((size) => meterCharge(size, params.baseFee)) : []
+  const meterCounts = meterCharges.map(() => 0)
+  const sewer = params.sewer?.enabled ? params.sewer : null
+  const sewerSamples: number[] = []
+  const assistance = params.assistance?.enabled ? params.assistance : null
+  const assignment = assistance
+    ? assignParticipants(params.draws.q0.slice(0, sampleCount), assistance, params.draws.eligibility, params.draws.enrollment)
+    : null
+  let discountSum = 0
+  let participantCount = 0
+  let nonParticipantBillSum = 0
+  const surchargeItems = params.surcharges?.enabled ? params.surcharges.items : null
+  const surchargeSums = (surchargeItems ?? []).map(() => 0)
+  const customerBills: number[] = []
+  const householdFixedCharges: number[] = []
+  const householdTiers: TierDefinition[][] = []
+  const volumetricSamples: number[] = []
+  const outdoorBaseline: number[] = []
+  const outdoorProposal: number[] = []
   const usageSamples: number[] = []
   const billSamples: number[] = []
   const epsSamples: number[] = []
   let usageSum = 0
   let billSum = 0
+  let kinkCount = 0
+  let nonConverged = 0
+  let maxResidual = 0
+  let iterationSum = 0
+  let maxIterations = 0
 
   for (let i = 0; i < sampleCount; i++) {
-    const elasticity = clampElasticity(params.elasticityMean + ELASTICITY_STD * params.draws.eps[i])
-    epsSamples.push(elasticity)
-    const usageSolution = solveUsage(
+    const offset = ELASTICITY_STD * params.draws.eps[i]
+    const elasticity = clampElasticity(params.elasticityMean + offset)
+    // The split keeps the household's elasticity draw as a shift on both components.
+    const split: EndUseSplit | undefined =
+      endUse && outdoorShares
+        ? {
+            outdoorShare: outdoorShares[i],
+            indoorElasticity: clampEndUseElasticity(endUse.indoorElasticity + offset),
+            outdoorElasticity: clampEndUseElasticity(endUse.outdoorElasticity + offset),
+          }
+        : undefined
+    epsSamples.push(
+      split ? (1 - split.outdoorShare) * split.indoorElasticity + split.outdoorShare * split.outdoorElasticity : elasticity,
+    )
+    const fullTiers = budgets ? applyAllowance(resolveBudgetTiers(params.tiers, budgets[i]), params.allowance) : traceTiers
+    const fullFixedCharge = meterSizes ? meterCharges[meterSizes[i]] : params.baseFee
+    householdFixedCharges.push(fullFixedCharge)
+    householdTiers.push(fullTiers)
+    const enrolled = assignment?.participants[i] ?? false
+    const { tiers, fixedCharge } =
+      assistance && enrolled
+        ? discountedCharges(fullTiers, fullFixedCharge, assistance)
+        : { tiers: fullTiers, fixedCharge: fullFixedCharge }
+    const usageSolution = solveHouseholdUsage(
       elasticity,
-      params.tiers,
+      tiers,
       baselineUsages[i],
       params.anchor.perceivedPrice,
-      params.baseFee,
+      fixedCharge,
       params.billSalience,
+      params,
+      split,
     )
-    const volumetric = computeVolumetricCharge(usageSolution.usage, params.tiers)
-    const bill = params.baseFee + volumetric
+    if (split) {
+      outdoorBaseline.push(baselineUsages[i] * split.outdoorShare)
+      outdoorProposal.push(usageSolution.outdoorUsage ?? 0)
+    }
+    if (usageSolution.atKink) kinkCount++
+    if (!usageSolution.converged) nonConverged++
+    maxResidual = Math.max(maxResidual, usageSolution.residual)
+    iterationSum += usageSolution.iterations
+    maxIterations = Math.max(maxIterations, usageSolution.iterations)
+    const volumetric = computeVolumetricCharge(usageSolution.usage, tiers)
+    const bill = fixedCharge + volumetric
+    if (meterSizes) meterCounts[meterSizes[i]]++
+    if (surchargeItems) {
+      const lines = computeSurchargeLines(bill, usageSolution.usage, surchargeItems)
+      lines.forEach((value, idx) => {
+        surchargeSums[idx] += value
+      })
+      customerBills.push(bill + lines.reduce((sum, value) => sum + value, 0))
+    }
+    if (enrolled) {
+      participantCount++
+      discountSum += fullFixedCharge + computeVolumetricCharge(usageSolution.usage, fullTiers) - bill
+    } else {
+      nonParticipantBillSum += bill
+    }
+    if (sewer) sewerSamples.push(computeSewerCharge(usageSolution.usage, winterAverageUsage(baselineUsages[i], sewer), sewer))
+    volumetricSamples.push(volumetric)
     usageSamples.push(usageSolution.usage)
     billSamples.push(bill)
     usageSum += usageSolution.usage
@@ -151,10 +368,25 @@ export const runMonteCarloSimulation = (params: MonteCarloParams): MonteCarloRes
   const usageMedian = percentile(sortedUsage, 0.5)
   const usageP95 = percentile(sortedUsage, 0.95)
   const billMedian = percentile(sortedBills, 0.5)
+  const volumetricMedian = percentile([...volumetricSamples].sort((a, b) => a - b), 0.5)
 
-  const marginalPrice = computeMarginalPrice(usageMedian, params.tiers)
-  const averagePrice = computeAveragePrice(usageMedian, params.tiers)
-  const perceivedPrice = computePerceivedPrice(usageMedian, params.tiers, params.baseFee, undefined, params.billSalience)
+  const marginalPrice = computeMarginalPrice(usageMedian, traceTiers)
+  const averagePrice = computeAveragePrice(usageMedian, traceTiers)
+  // Lagged perception prices last month's bill, so report it at the baseline median.
+  const perceptionUsage =
+    params.perception?.rule === "lagged" && params.engine !== "kinked"
+      ? percentile([...baselineUsages].sort((a, b) => a - b), 0.5)
+      : usageMedian
+  const traceFixedCharge = meterTable ? averageMeterCharge(meterTable, params.baseFee) : params.baseFee
+  const perceivedPrice = computeReferencePrice(perceptionUsage, traceTiers, traceFixedCharge, params.billSalience, params)
+
+  let outdoorSavingsShare: number | null = null
+  if (outdoorShares) {
+    const baselineTotal = baselineUsages.slice(0, sampleCount).reduce((sum, value) => sum + value, 0)
+    const outdoorChange =
+      outdoorProposal.reduce((sum, value) => sum + value, 0) - outdoorBaseline.reduce((sum, value) => sum + value, 0)
+    outdoorSavingsShare = outdoorChangeShare(usageSum - baselineTotal, outdoorChange)
+  }
 
   const warnings: string[] = []
   if (params.elasticityMean >= 0) {
@@ -166,11 +398,55 @@ export const runMonteCarloSimulation = (params: MonteCarloParams): MonteCarloRes
   if (usageP95 >= MAX_USAGE - 1e-3) {
     warnings.push("Some customers are hitting the maximum usage bound.")
   }
+  if (kinkCount > 0) {
+    warnings.push(`${((kinkCount / sampleCount) * 100).toFixed(1)}% of households bunch exactly at a tier break.`)
+  }
+  const convergence: ConvergenceSummary = {
+    samples: sampleCount,
+    nonConverged,
+    maxResidual,
+    meanIterations: iterationSum / sampleCount,
+    maxIterations,
+  }
+  const unconverged = convergenceWarning(convergence)
+  if (unconverged) {
+    warnings.push(unconverged)
+  }
+  const meterWarning = params.meters?.enabled ? meterCountWarning(params.meters.sizes, params.connections) : null
+  if (meterWarning) {
+    warnings.push(meterWarning)
+  }
+  const meterRevenue: MeterRevenue[] | undefined = meterTable
+    ? meterTable.map((size, idx) => ({
+        id: size.id,
+        label: size.label,
+        connections: meterCounts[idx] * weight,
+        charge: meterCharges[idx],
+        revenue: meterCounts[idx] * weight * meterCharges[idx],
+      }))
+    : undefined
+  const surchargeRevenue: SurchargeRevenue[] | undefined = surchargeItems
+    ? surchargeItems.map((item, idx) => ({ id: item.id, name: item.name, revenue: surchargeSums[idx] * weight }))
+    : undefined
+  let assistanceResult: AssistanceResult | undefined
+  if (assistance && assignment) {
+    const discountCost = discountSum * weight
+    const adminCost = participantCount * weight * Math.max(assistance.adminCost, 0)
+    const programCost = discountCost + adminCost
+    assistanceResult = {
+      eligible: assignment.eligible.filter(Boolean).length * weight,
+      participants: participantCount * weight,
+      discountCost,
+      adminCost,
+      programCost,
+      fundingIncrease: nonParticipantBillSum > 0 ? programCost / (nonParticipantBillSum * weight) : 0,
+    }
+  }
 
   return {
     usageMG,
     revenue,
-    volumetricBillPerConnection: Math.max(billMedian - params.baseFee, 0),
+    volumetricBillPerConnection: volumetricMedian,
     trace: {
       perConnectionUsage: usageMedian,
       usageP5,
@@ -179,17 +455,37 @@ export const runMonteCarloSimulation = (params: MonteCarloParams): MonteCarloRes
       averagePrice,
       perceivedPrice,
       billPerConnection: billMedian,
+      demandForm: describeDemandForm(params.form),
+      perception: describePerception(params),
+      outdoorSavingsShare: outdoorSavingsShare ?? undefined,
+      budget: budgets ? percentile([...budgets].sort((a, b) => a - b), 0.5) : undefined,
+      sewerBillPerConnection: sewer ? percentile([...sewerSamples].sort((a, b) => a - b), 0.5) : undefined,
+      customerBillPerConnection: surchargeItems ? percentile([...customerBills].sort((a, b) => a - b), 0.5) : undefined,
     },
     warnings,
     validationMessage: params.validationMessage,
     tiersUsed: params.tiers,
+    convergence,
+    meterRevenue,
+    sewerRevenue: sewer ? sewerSamples.reduce((sum, value) => sum + value, 0) * weight : undefined,
+    assistance: assistanceResult,
+    surchargeRevenue,
     samples: {
       baseline: baselineUsages,
       proposal: usageSamples,
       eps: epsSamples,
+      outdoorBaseline: outdoorShares ? outdoorBaseline : undefined,
+      outdoorProposal: outdoorShares ? outdoorProposal : undefined,
+      budgets: budgets ?? undefined,
+      meterSizes: meterSizes ?? undefined,
+      fixedCharges: householdFixedCharges,
+      tiers: householdTiers,
+      bills: assignment ? billSamples : undefined,
+      participants: assignment?.participants,
     },
   }
 }
 
 export const MONTE_CARLO_SAMPLE_SIZE = SAMPLE_SIZE
 export const ELASTICITY_DIVERSITY = ELASTICITY_STD
+export const DEFAULT_MONTE_CARLO_SEED = DEFAULT_SEED
@@ -0,0 +1,452 @@
+import {
+  BaselineAnchor,
+  DEFAULT_PERCEPTION,
+  DemandEngine,
+  PERCEPTION_RULE_LABELS,
+  PerceptionRule,
+  PerceptionSettings,
+  TierDefinition,
+} from "./demand"
+import { RateSchedule } from "./bills"
+import { AffordabilitySettings, DEFAULT_MEDIAN_INCOME } from "./affordability"
+import { CustomerClass, DEFAULT_CUSTOMER_CLASSES } from "./classes"
+import { AdjustmentSettings, DEFAULT_ADJUSTMENT, MAX_ADJUSTMENT_YEARS } from "./dynamics"
+import { DEFAULT_DROUGHT, DroughtSettings, DroughtStage } from "./drought"
+import { BudgetSettings, DEFAULT_BUDGET } from "./budget"
+import { AWWA_METER_RATIOS, DEFAULT_METERS, MeterSettings, MeterSize } from "./meters"
+import { DEFAULT_SURCHARGES, SURCHARGE_KIND_LABELS, SurchargeItem, SurchargeKind, SurchargeSettings } from "./surcharges"
+import { DEFAULT_SEWER, SEWER_BASIS_LABELS, SewerBasis, SewerSettings } from "./sewer"
+import { DEFAULT_UNITS, USAGE_UNITS, UnitSettings, UsageUnit, VOLUME_UNITS, VolumeUnit, isSupportedCurrency } from "./units"
+import {
+  ASSISTANCE_DISCOUNT_LABELS,
+  AssistanceDiscount,
+  AssistanceSettings,
+  DEFAULT_ASSISTANCE,
+} from "./assistance"
+import {
+  DEFAULT_DEMAND_FORM,
+  DEFAULT_END_USE,
+  DEMAND_FORM_LABELS,
+  DemandFormId,
+  DemandFormSettings,
+  EndUseSettings,
+} from "./forms"
+import { DEFAULT_MONTE_CARLO_SEED, normalizeSeed } from "./montecarlo"
+import { DEFAULT_SEASONAL_MULTIPLIERS, DEFAULT_SUMMER_MONTHS, MONTH_LABELS } from "./seasonal"
+import { DEFAULT_WEATHER, WeatherSettings } from "./weather"
+
+export interface SeasonalSettingsState {
+  enabled: boolean
+  multipliers: number[]
+  summerMonths: boolean[]
+  summerPriceFactor: number
+}
+
+export interface CustomerClassesState {
+  enabled: boolean
+  list: CustomerClass[]
+}
+
+/**
+ * Every input the simulator needs to reproduce a scenario exactly. The baseline
+ * anchor plus the seed rebuild the frozen Monte Carlo population.
+ */
+export interface ScenarioState {
+  connections: number
+  elasticity: number
+  baseFee: number
+  /**
+   * Usage (kgal) included in the base fee
+   */
+  allowance: number
+  tiers: TierDefinition[]
+  typicalUse: number
+  usageVar: number
+  billSalience: number
+  demandEngine: DemandEngine
+  demandForm: DemandFormSettings
+  perception: PerceptionSettings
+  endUse: EndUseSettings
+  adjustment: AdjustmentSettings
+  weather: WeatherSettings
+  drought: DroughtSettings
+  budget: BudgetSettings
+  meters: MeterSettings
+  sewer: SewerSettings
+  assistance: AssistanceSettings
+  surcharges: SurchargeSettings
+  /**
+   * Display units and currency; every other field stays in kgal, MG and $
+   */
+  units: UnitSettings
+  seed: number
+  anchor: BaselineAnchor | null
+  classAnchors: Record<string, BaselineAnchor>
+  /**
+   * Rates in effect when the baseline was frozen; bill impacts compare against these
+   */
+  baselineRates: RateSchedule | null
+  seasonal: SeasonalSettingsState
+  classes: CustomerClassesState
+  affordability: AffordabilitySettings
+}
+
+export const DEFAULT_SCENARIO: ScenarioState = {
+  connections: 1000,
+  elasticity: -0.15,
+  baseFee: 25,
+  allowance: 0,
+  tiers: [
+    { lower: 0, upper: 5, price: 3.5 },
+    { lower: 5, upper: 10, price: 4.25 },
+    { lower: 10, upper: null, price: 5.0 },
+  ],
+  typicalUse: 7,
+  usageVar: 0.4,
+  billSalience: 0.05,
+  demandEngine: "perceived",
+  demandForm: DEFAULT_DEMAND_FORM,
+  perception: DEFAULT_PERCEPTION,
+  endUse: DEFAULT_END_USE,
+  adjustment: DEFAULT_ADJUSTMENT,
+  weather: DEFAULT_WEATHER,
+  drought: DEFAULT_DROUGHT,
+  budget: DEFAULT_BUDGET,
+  meters: DEFAULT_METERS,
+  sewer: DEFAULT_SEWER,
+  assistance: DEFAULT_ASSISTANCE,
+  surcharges: DEFAULT_SURCHARGES,
+  units: DEFAULT_UNITS,
+  seed: DEFAULT_MONTE_CARLO_SEED,
+  anchor: null,
+  classAnchors: {},
+  baselineRates: null,
+  seasonal: {
+    enabled: false,
+    multipliers: [...DEFAULT_SEASONAL_MULTIPLIERS],
+    summerMonths: [...DEFAULT_SUMMER_MONTHS],
+    summerPriceFactor: 1,
+  },
+  classes: {
+    enabled: false,
+    list: DEFAULT_CUSTOMER_CLASSES,
+  },
+  affordability: {
+    medianIncome: DEFAULT_MEDIAN_INCOME,
+    incomeByDecile: null,
+  },
+}
+
+type UnknownRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const readNumber = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback
+
+const readBoolean = (value: unknown, fallback: boolean) => (typeof value === "boolean" ? value : fallback)
+
+const readString = (value: unknown, fallback: string) => (typeof value === "string" ? value : fallback)
+
+// Own keys only, so names like "toString" from a shared link never pass as an option.
+const readOption = <T extends string>(value: unknown, options: Record<T, unknown>, fallback: T): T =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(options, value) ? (value as T) : fallback
+
+export const sanitizeTiers = (value: unknown, fallback: TierDefinition[]): TierDefinition[] => {
+  if (!Array.isArray(value)) return fallback
+  const tiers = value.filter(isRecord).map((tier) => ({
+    lower: readNumber(tier.lower, 0),
+    upper: tier.upper === null ? null : readNumber(tier.upper, 0),
+    price: readNumber(tier.price, 0),
+  }))
+  return tiers.length > 0 ? tiers : fallback
+}
+
+export const sanitizeAnchor = (value: unknown): BaselineAnchor | null => {
+  if (!isRecord(value)) return null
+  const usage = readNumber(value.usage, Number.NaN)
+  const perceivedPrice = readNumber(value.perceivedPrice, Number.NaN)
+  return Number.isFinite(usage) && Number.isFinite(perceivedPrice) ? { usage, perceivedPrice } : null
+}
+
+export const sanitizeRates = (value: unknown): RateSchedule | null => {
+  if (!isRecord(value) || !Array.isArray(value.tiers)) return null
+  return {
+    baseFee: readNumber(value.baseFee, 0),
+    allowance: Math.max(readNumber(value.allowance, 0), 0),
+    tiers: sanitizeTiers(value.tiers, []),
+  }
+}
+
+const sanitizeClass = (value: UnknownRecord, idx: number): CustomerClass => ({
+  id: readString(value.id, `class-${idx + 1}`),
+  name: readString(value.name, `Class ${idx + 2}`),
+  connections: readNumber(value.connections, 0),
+  typicalUse: readNumber(value.typicalUse, 10),
+  usageVar: readNumber(value.usageVar, 0.4),
+  elasticityMean: readNumber(value.elasticityMean, -0.15),
+  baseFee: readNumber(value.baseFee, 0),
+  tiers: sanitizeTiers(value.tiers, [{ lower: 0, upper: null, price: 0 }]),
+})
+
+const sanitizeDemandForm = (value: unknown, fallback: DemandFormSettings): DemandFormSettings => {
+  if (!isRecord(value)) return fallback
+  return {
+    id: readOption<DemandFormId>(value.id, DEMAND_FORM_LABELS, fallback.id),
+    minimumUse: Math.max(readNumber(value.minimumUse, fallback.minimumUse), 0),
+    incomeElasticity: readNumber(value.incomeElasticity, fallback.incomeElasticity),
+    incomeRatio: Math.max(readNumber(value.incomeRatio, fallback.incomeRatio), 0.01),
+  }
+}
+
+const sanitizePerception = (value: unknown, fallback: PerceptionSettings): PerceptionSettings => {
+  if (!isRecord(value)) return fallback
+  return {
+    rule: readOption<PerceptionRule>(value.rule, PERCEPTION_RULE_LABELS, fallback.rule),
+    alpha: Math.min(Math.max(readNumber(value.alpha, fallback.alpha), 0), 1),
+    shinK: Math.min(Math.max(readNumber(value.shinK, fallback.shinK), 0), 1),
+  }
+}
+
+const sanitizeEndUse = (value: unknown, fallback: EndUseSettings): EndUseSettings => {
+  if (!isRecord(value)) return fallback
+  return {
+    enabled: readBoolean(value.enabled, fallback.enabled),
+    outdoorShare: Math.min(Math.max(readNumber(value.outdoorShare, fallback.outdoorShare), 0), 0.95),
+    shareSpread: Math.max(readNumber(value.shareSpread, fallback.shareSpread), 0),
+    indoorElasticity: readNumber(value.indoorElasticity, fallback.indoorElasticity),
+    outdoorElasticity: readNumber(value.outdoorElasticity, fallback.outdoorElasticity),
+  }
+}
+
+const sanitizeAdjustment = (value: unknown, fallback: AdjustmentSettings): AdjustmentSettings => {
+  if (!isRecord(value)) return fallback
+  return {
+    enabled: readBoolean(value.enabled, fallback.enabled),
+    years: Math.min(Math.max(Math.round(readNumber(value.years, fallback.years)), 1), MAX_ADJUSTMENT_YEARS),
+    shortRunElasticity: readNumber(value.shortRunElasticity, fallback.shortRunElasticity),
+    longRunElasticity: readNumber(value.longRunElasticity, fallback.longRunElasticity),
+    speed: Math.min(Math.max(readNumber(value.speed, fallback.speed), 0), 1),
+  }
+}
+
+const sanitizeMonthly = <T>(value: unknown, fallback: T[], read: (entry: unknown, fallback: T) => T): T[] => {
+  const source = Array.isArray(value) ? value : []
+  return MONTH_LABELS.map((_, idx) => read(source[idx], fallback[idx]))
+}
+
+const sanitizeWeather = (value: unknown, fallback: WeatherSettings): WeatherSettings => {
+  if (!isRecord(value)) return fallback
+  const custom = isRecord(value.custom) ? value.custom : {}
+  return {
+    tempSensitivity: readNumber(value.tempSensitivity, fallback.tempSensitivity),
+    precipSensitivity: readNumber(value.precipSensitivity, fallback.precipSensitivity),
+    custom: {
+      temp: sanitizeMonthly(custom.temp, fallback.custom.temp, readNumber),
+      precip: sanitizeMonthly(custom.precip, fallback.custom.precip, readNumber),
+    },
+  }
+}
+
+const sanitizeDroughtStage = (value: UnknownRecord, idx: number): DroughtStage => ({
+  id: readString(value.id, `stage-${idx + 1}`),
+  name: readString(value.name, `Stage ${idx + 1}`),
+  curtailmentPct: Math.min(Math.max(readNumber(value.curtailmentPct, 0), 0), 100),
+  surchargeKind: value.surchargeKind === "percent" ? "percent" : "perKgal",
+  surcharge: Math.max(readNumber(value.surcharge, 0), 0),
+  breakFactor: Math.max(readNumber(value.breakFactor, 1), 0.01),
+})
+
+const sanitizeDrought = (value: unknown, fallback: DroughtSettings): DroughtSettings => {
+  if (!isRecord(value)) return fallback
+  return {
+    enabled: readBoolean(value.enabled, fallback.enabled),
+    stages: Array.isArray(value.stages) ? value.stages.filter(isRecord).map(sanitizeDroughtStage) : fallback.stages,
+  }
+}
+
+const sanitizeBudget = (value: unknown, fallback: BudgetSettings): BudgetSettings => {
+  if (!isRecord(value)) return fallback
+  return {
+    enabled: readBoolean(value.enabled, fallback.enabled),
+    indoorAllotment: Math.max(readNumber(value.indoorAllotment, fallback.indoorAllotment), 0),
+    outdoorAllotment: Math.max(readNumber(value.outdoorAllotment, fallback.outdoorAllotment), 0),
+    et: Math.max(readNumber(value.et, fallback.et), 0),
+    meanPersons: Math.max(readNumber(value.meanPersons, fallback.meanPersons), 1),
+    meanArea: Math.max(readNumber(value.meanArea, fallback.meanArea), 0),
+  }
+}
+
+const sanitizeMeterSize = (value: UnknownRecord, idx: number): MeterSize => {
+  const id = readString(value.id, `meter-${idx + 1}`)
+  return {
+    id,
+    label: readString(value.label, `${id}"`),
+    connections: Math.max(readNumber(value.connections, 0), 0),
+    ratio: Math.max(readNumber(value.ratio, AWWA_METER_RATIOS[id] ?? 1), 0),
+    charge: value.charge === null ? null : Math.max(readNumber(value.charge, 0), 0),
+  }
+}
+
+const sanitizeMeters = (value: unknown, fallback: MeterSettings): MeterSettings => {
+  if (!isRecord(value)) return fallback
+  return {
+    enabled: readBoolean(value.enabled, fallback.enabled),
+    sizes: Array.isArray(value.sizes) ? value.sizes.filter(isRecord).map(sanitizeMeterSize) : fallback.sizes,
+  }
+}
+
+const sanitizeSewer = (value: unknown, fallback: SewerSettings): SewerSettings => {
+  if (!isRecord(value)) return fallback
+  return {
+    enabled: readBoolean(value.enabled, fallback.enabled),
+    fixedCharge: Math.max(readNumber(value.fixedCharge, fallback.fixedCharge), 0),
+    rate: Math.max(readNumber(value.rate, fallback.rate), 0),
+    basis: readOption<SewerBasis>(value.basis, SEWER_BASIS_LABELS, fallback.basis),
+    cap: Math.max(readNumber(value.cap, fallback.cap), 0),
+    winterRatio: Math.max(readNumber(value.winterRatio, fallback.winterRatio), 0),
+    combinedSalience: readBoolean(value.combinedSalience, fallback.combinedSalience),
+  }
+}
+
+const sanitizeAssistance = (value: unknown, fallback: AssistanceSettings): AssistanceSettings => {
+  if (!isRecord(value)) return fallback
+  const readPct = (raw: unknown, current: number) => Math.min(Math.max(readNumber(raw, current), 0), 100)
+  return {
+    enabled: readBoolean(value.enabled, fallback.enabled),
+    eligiblePct: readPct(value.eligiblePct, fallback.eligiblePct),
+    lowUsageCorrelation: Math.min(Math.max(readNumber(value.lowUsageCorrelation, fallback.lowUsageCorrelation), 0), 1),
+    enrollmentPct: readPct(value.enrollmentPct, fallback.enrollmentPct),
+    discount: readOption<AssistanceDiscount>(value.discount, ASSISTANCE_DISCOUNT_LABELS, fallback.discount),
+    percentOff: readPct(value.percentOff, fallback.percentOff),
+    lifelinePrice: Math.max(readNumber(value.lifelinePrice, fallback.lifelinePrice), 0),
+    lifelineBlock: Math.max(readNumber(value.lifelineBlock, fallback.lifelineBlock), 0),
+    adminCost: Math.max(readNumber(value.adminCost, fallback.adminCost), 0),
+  }
+}
+
+const sanitizeSurchargeItem = (value: UnknownRecord, idx: number): SurchargeItem => ({
+  id: readString(value.id, `surcharge-${idx + 1}`),
+  name: readString(value.name, `Surcharge ${idx + 1}`),
+  kind: readOption<SurchargeKind>(value.kind, SURCHARGE_KIND_LABELS, "perConnection"),
+  amount: Math.max(readNumber(value.amount, 0), 0),
+  afterTax: readBoolean(value.afterTax, false),
+})
+
+const sanitizeSurcharges = (value: unknown, fallback: SurchargeSettings): SurchargeSettings => {
+  if (!isRecord(value)) return fallback
+  return {
+    enabled: readBoolean(value.enabled, fallback.enabled),
+    items: Array.isArray(value.items) ? value.items.filter(isRecord).map(sanitizeSurchargeItem) : fallback.items,
+  }
+}
+
+const sanitizeUnits = (value: unknown, fallback: UnitSettings): UnitSettings => {
+  if (!isRecord(value)) return fallback
+  const currency = readString(value.currency, fallback.currency).toUpperCase()
+  const locale = readString(value.locale, fallback.locale)
+  const supported = isSupportedCurrency(currency, locale)
+  return {
+    usage: readOption<UsageUnit>(value.usage, USAGE_UNITS, fallback.usage),
+    volume: readOption<VolumeUnit>(value.volume, VOLUME_UNITS, fallback.volume),
+    currency: supported ? currency : fallback.currency,
+    locale: supported ? locale : fallback.locale,
+  }
+}
+
+/**
+ * Coerces untrusted input (URL payloads, stored records) into a complete scenario,
+ * filling anything missing or malformed from the defaults.
+ */
+export const sanitizeScenario = (raw: unknown, defaults: ScenarioState = DEFAULT_SCENARIO): ScenarioState => {
+  const source = isRecord(raw) ? raw : {}
+  const seasonal = isRecord(source.seasonal) ? source.seasonal : {}
+  const classes = isRecord(source.classes) ? source.classes : {}
+  const affordability = isRecord(source.affordability) ? source.affordability : {}
+  const classAnchors: Record<string, BaselineAnchor> = {}
+  if (isRecord(source.classAnchors)) {
+    Object.entries(source.classAnchors).forEach(([id, value]) => {
+      const anchor = sanitizeAnchor(value)
+      if (anchor) classAnchors[id] = anchor
+    })
+  }
+
+  return {
+    connections: readNumber(source.connections, defaults.connections),
+    elasticity: readNumber(source.elasticity, defaults.elasticity),
+    baseFee: readNumber(source.baseFee, defaults.baseFee),
+    allowance: Math.max(readNumber(source.allowance, defaults.allowance), 0),
+    tiers: sanitizeTiers(source.tiers, defaults.tiers),
+    typicalUse: readNumber(source.typicalUse, defaults.typicalUse),
+    usageVar: readNumber(source.usageVar, defaults.usageVar),
+    billSalience: readNumber(source.billSalience, defaults.billSalience),
+    demandEngine: source.demandEngine === "kinked" || source.demandEngine === "perceived" ? source.demandEngine : defaults.demandEngine,
+    demandForm: sanitizeDemandForm(source.demandForm, defaults.demandForm),
+    perception: sanitizePerception(source.perception, defaults.perception),
+    endUse: sanitizeEndUse(source.endUse, defaults.endUse),
+    adjustment: sanitizeAdjustment(source.adjustment, defaults.adjustment),
+    weather: sanitizeWeather(source.weather, defaults.weather),
+    drought: sanitizeDrought(source.drought, defaults.drought),
+    budget: sanitizeBudget(source.budget, defaults.budget),
+    meters: sanitizeMeters(source.meters, defaults.meters),
+    sewer: sanitizeSewer(source.sewer, defaults.sewer),
+    assistance: sanitizeAssistance(source.assistance, defaults.assistance),
+    surcharges: sanitizeSurcharges(source.surcharges, defaults.surcharges),
+    units: sanitizeUnits(source.units, defaults.units),
+    seed: normalizeSeed(readNumber(source.seed, defaults.seed)),
+    anchor: sanitizeAnchor(source.anchor),
+    classAnchors,
+    baselineRates: sanitizeRates(source.baselineRates),
+    seasonal: {
+      enabled: readBoolean(seasonal.enabled, defaults.seasonal.enabled),
+      multipliers: sanitizeMonthly(seasonal.multipliers, defaults.seasonal.multipliers, readNumber),
+      summerMonths: sanitizeMonthly(seasonal.summerMonths, defaults.seasonal.summerMonths, readBoolean),
+      summerPriceFactor: readNumber(seasonal.summerPriceFactor, defaults.seasonal.summerPriceFactor),
+    },
+    classes: {
+      enabled: readBoolean(classes.enabled, defaults.classes.enabled),
+      list: Array.isArray(classes.list) ? classes.list.filter(isRecord).map(sanitizeClass) : defaults.classes.list,
+    },
+    affordability: {
+      medianIncome: readNumber(affordability.medianIncome, defaults.affordability.medianIncome),
+      incomeByDecile: Array.isArray(affordability.incomeByDecile)
+        ? Array.from({ length: 10 }, (_, idx) => readNumber((affordability.incomeByDecile as unknown[])[idx], 1))
+        : affordability.incomeByDecile === null
+          ? null
+          : defaults.affordability.incomeByDecile,
+    },
+  }
+}
+
+export type ScenarioValue = string | number | boolean | null
+
+export interface ScenarioDiffEntry {
+  path: string
+  before: ScenarioValue | undefined
+  after: ScenarioValue | undefined
+}
+
+/**
+ * Flattens a scenario into dotted paths (e.g. `tiers[1].price`) so any two
+ * scenarios can be compared field by field, including inputs added later.
+ */
+export const flattenScenario = (value: unknown, prefix = "", out: Record<string, ScenarioValue> = {}) => {
+  if (Array.isArray(value)) {
+    value.forEach((entry, idx) => flattenScenario(entry, `${prefix}[${idx}]`, out))
+  } else if (isRecord(value)) {
+    Object.entries(value).forEach(([key, entry]) => flattenScenario(entry, prefix ? `${prefix}.${key}` : key, out))
+  } else if (value === null || ["string", "number", "boolean"].includes(typeof value)) {
+    out[prefix] = value as ScenarioValue
+  }
+  return out
+}
+
+export const diffScenarios = (before: ScenarioState, after: ScenarioState): ScenarioDiffEntry[] => {
+  const flatBefore = flattenScenario(before)
+  const flatAfter = flattenScenario(after)
+  const paths = Array.from(new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]))
+  return paths
+    .filter((path) => flatBefore[path] !== flatAfter[path])
+    .map((path) => ({ path, before: flatBefore[path], after: flatAfter[path] }))
+}
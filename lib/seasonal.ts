@@ -0,0 +1,125 @@
+import {
+  BaselineAnchor,
+  DemandResult,
+  TierDefinition,
+  calculateDemand,
+} from "./demand"
+import { MonteCarloDraws, MonteCarloParams, runMonteCarloSimulation } from "./montecarlo"
+import type { SewerSettings } from "./sewer"
+
+export const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+/**
+ * Typical arid-west residential shape: winter lows around 70% of the annual mean,
+ * summer peaks around 145%. Averages to 1.0 so annual totals match 12 flat months.
+ */
+export const DEFAULT_SEASONAL_MULTIPLIERS = [0.7, 0.7, 0.8, 0.9, 1.1, 1.3, 1.45, 1.4, 1.2, 0.95, 0.75, 0.75]
+export const DEFAULT_SUMMER_MONTHS = [false, false, false, false, true, true, true, true, true, false, false, false]
+/**
+ * Dec, Jan and Feb: the quarter a winter-average sewer charge is measured over
+ */
+export const WINTER_MONTHS = [11, 0, 1]
+
+export interface SeasonalMonth {
+  label: string
+  /**
+   * Demand shifter applied to the baseline anchor usage (1 = representative month)
+   */
+  multiplier: number
+  /**
+   * Optional schedule for this month (e.g. summer rates). Falls back to the base tiers.
+   */
+  tiers?: TierDefinition[] | null
+}
+
+export interface SeasonalParams extends Omit<MonteCarloParams, "draws"> {
+  months: SeasonalMonth[]
+  draws: MonteCarloDraws | null
+}
+
+export interface SeasonalMonthResult {
+  label: string
+  multiplier: number
+  usageMG: number
+  revenue: number
+  medianUsage: number
+  result: DemandResult
+}
+
+export interface SeasonalResult {
+  months: SeasonalMonthResult[]
+  annualMG: number
+  annualRevenue: number
+  warnings: string[]
+}
+
+export const buildSeasonalMonths = (
+  multipliers: number[],
+  summerMonths: boolean[] = [],
+  summerTiers: TierDefinition[] | null = null,
+): SeasonalMonth[] => {
+  return MONTH_LABELS.map((label, idx) => ({
+    label,
+    multiplier: Math.max(0, multipliers[idx] ?? 1),
+    tiers: summerMonths[idx] && summerTiers ? summerTiers : null,
+  }))
+}
+
+export const scaleTierPrices = (tiers: TierDefinition[], factor: number): TierDefinition[] => {
+  return tiers.map((tier) => ({ ...tier, price: tier.price * Math.max(0, factor) }))
+}
+
+/**
+ * Seasonality shifts the demand curve: at the frozen reference price a household
+ * uses q0 × multiplier, and still responds to whatever that month's schedule charges.
+ */
+export const seasonalAnchor = (anchor: BaselineAnchor, multiplier: number): BaselineAnchor => ({
+  usage: anchor.usage * multiplier,
+  perceivedPrice: anchor.perceivedPrice,
+})
+
+/**
+ * Sewer settings for one month. Each month's baseline use is shifted by its multiplier,
+ * so the winter ratio is re-based to keep the winter average at the winter months'
+ * level instead of rising with this month's use.
+ */
+export const seasonalSewer = (
+  sewer: SewerSettings | undefined,
+  months: SeasonalMonth[],
+  multiplier: number,
+): SewerSettings | undefined => {
+  if (!sewer?.enabled || sewer.basis !== "winterAverage") return sewer
+  const winterMultiplier =
+    WINTER_MONTHS.reduce((sum, idx) => sum + (months[idx]?.multiplier ?? 1), 0) / WINTER_MONTHS.length
+  return { ...sewer, winterRatio: multiplier > 0 ? winterMultiplier / multiplier : 0 }
+}
+
+export const runSeasonalSimulation = (params: SeasonalParams): SeasonalResult => {
+  const { months, draws, ...base } = params
+  const warnings = new Set<string>()
+
+  const monthResults = months.map((month) => {
+    const tiers = month.tiers ?? base.tiers
+    const anchor = seasonalAnchor(base.anchor, month.multiplier)
+    const sewer = seasonalSewer(base.sewer, months, month.multiplier)
+    const result: DemandResult = draws
+      ? runMonteCarloSimulation({ ...base, sewer, tiers, anchor, draws })
+      : calculateDemand({ ...base, sewer, elasticity: base.elasticityMean, tiers, baseline: anchor })
+    result.warnings.forEach((warning) => warnings.add(`${month.label}: ${warning}`))
+    return {
+      label: month.label,
+      multiplier: month.multiplier,
+      usageMG: result.usageMG,
+      revenue: result.revenue,
+      medianUsage: result.trace.perConnectionUsage,
+      result,
+    }
+  })
+
+  return {
+    months: monthResults,
+    annualMG: monthResults.reduce((sum, month) => sum + month.usageMG, 0),
+    annualRevenue: monthResults.reduce((sum, month) => sum + month.revenue, 0),
+    warnings: Array.from(warnings),
+  }
+}
@@ -0,0 +1,90 @@
+import type { TierDefinition } from "./demand"
+
+/**
+ * What the sewer volumetric rate is billed on:
+ * - actual: this month's water use
+ * - winterAverage: the household's winter-quarter average, fixed before the bill month
+ * - capped: this month's water use up to `cap`
+ */
+export type SewerBasis = "actual" | "winterAverage" | "capped"
+
+export interface SewerSettings {
+  enabled: boolean
+  fixedCharge: number
+  /**
+   * Sewer volumetric rate ($/kgal of billed basis)
+   */
+  rate: number
+  basis: SewerBasis
+  /**
+   * Billing cap (kgal) for the capped basis
+   */
+  cap: number
+  /**
+   * Winter-quarter average as a share of the household's baseline monthly use
+   */
+  winterRatio: number
+  /**
+   * Customers respond to the combined water/sewer bill rather than water alone
+   */
+  combinedSalience: boolean
+}
+
+export const DEFAULT_SEWER: SewerSettings = {
+  enabled: false,
+  fixedCharge: 18,
+  rate: 4,
+  basis: "winterAverage",
+  cap: 12,
+  winterRatio: 0.8,
+  combinedSalience: true,
+}
+
+export const SEWER_BASIS_LABELS: Record<SewerBasis, string> = {
+  actual: "Actual use",
+  winterAverage: "Winter average",
+  capped: "Capped use",
+}
+
+export const winterAverageUsage = (baselineUsage: number, settings: SewerSettings) =>
+  Math.max(baselineUsage, 0) * Math.max(settings.winterRatio, 0)
+
+/**
+ * Kgal the sewer rate applies to for a household using `usage` this month.
+ */
+export const sewerBilledUsage = (usage: number, winterUsage: number, settings: SewerSettings) => {
+  if (settings.basis === "winterAverage") return winterUsage
+  if (settings.basis === "capped") return Math.min(Math.max(usage, 0), Math.max(settings.cap, 0))
+  return Math.max(usage, 0)
+}
+
+export const computeSewerCharge = (usage: number, winterUsage: number, settings: SewerSettings) =>
+  Math.max(settings.fixedCharge, 0) + Math.max(settings.rate, 0) * sewerBilledUsage(usage, winterUsage, settings)
+
+/**
+ * Water tiers with the sewer rate added wherever it moves with this month's use, i.e.
+ * the combined marginal schedule a customer reading one bill faces. A winter-average
+ * charge does not vary with use, so it adds nothing here.
+ */
+export const combinedTiers = (tiers: TierDefinition[], settings: SewerSettings): TierDefinition[] => {
+  const rate = Math.max(settings.rate, 0)
+  if (settings.basis === "winterAverage" || rate === 0) return tiers
+  if (settings.basis === "actual") return tiers.map((tier) => ({ ...tier, price: tier.price + rate }))
+  const cap = Math.max(settings.cap, 0)
+  return tiers.flatMap((tier) => {
+    const upper = tier.upper ?? Number.POSITIVE_INFINITY
+    if (upper <= cap) return [{ ...tier, price: tier.price + rate }]
+    if (tier.lower >= cap) return [tier]
+    return [
+      { lower: tier.lower, upper: cap, price: tier.price + rate },
+      { ...tier, lower: cap },
+    ]
+  })
+}
+
+/**
+ * Part of the sewer bill that does not move with this month's use; it joins the base
+ * fee in the bill-salience term.
+ */
+export const sewerFixedPortion = (winterUsage: number, settings: SewerSettings) =>
+  Math.max(settings.fixedCharge, 0) + (settings.basis === "winterAverage" ? Math.max(settings.rate, 0) * winterUsage : 0)
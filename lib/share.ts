@@ -0,0 +1,100 @@
+import { TierDefinition } from "./demand"
+import { ScenarioState, sanitizeScenario } from "./scenario"
+
+export const SHARE_URL_VERSION = 1
+export const SHARE_HASH_KEY = "s"
+
+const NUMBER_PRECISION = 6
+
+type CompactTier = [number, number | null, number]
+
+const compactTiers = (tiers: TierDefinition[]): CompactTier[] => tiers.map((tier) => [tier.lower, tier.upper, tier.price])
+
+const expandTiers = (value: unknown): unknown => {
+  if (!Array.isArray(value)) return value
+  return value.map((tier) => (Array.isArray(tier) ? { lower: tier[0], upper: tier[1], price: tier[2] } : tier))
+}
+
+// Integers (connection counts, years) pass through; only fractional inputs are trimmed.
+const roundNumbers = (value: unknown): unknown => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && !Number.isInteger(value) ? Number.parseFloat(value.toPrecision(NUMBER_PRECISION)) : value
+  }
+  if (Array.isArray(value)) return value.map(roundNumbers)
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, roundNumbers(entry)]))
+  }
+  return value
+}
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ""
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+const fromBase64Url = (encoded: string) => {
+  const padded = encoded.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(encoded.length / 4) * 4, "=")
+  const binary = atob(padded)
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  return new TextDecoder().decode(bytes)
+}
+
+/**
+ * Serializes a scenario to `s=<version>.<base64url JSON>`. Tiers are packed as
+ * [lower, upper, price] tuples and fractional inputs trimmed to 6 significant digits;
+ * the seed and baseline anchors stay exact so the recipient draws the same households
+ * and the frozen baseline reproduces bit-for-bit.
+ */
+export const encodeScenarioHash = (state: ScenarioState): string => {
+  const { seed, anchor, classAnchors, ...inputs } = state
+  const payload = {
+    ...(roundNumbers({
+      ...inputs,
+      tiers: compactTiers(inputs.tiers),
+      classes: {
+        ...inputs.classes,
+        list: inputs.classes.list.map((cls) => ({ ...cls, tiers: compactTiers(cls.tiers) })),
+      },
+    }) as Record<string, unknown>),
+    seed,
+    anchor,
+    classAnchors,
+  }
+  return `${SHARE_HASH_KEY}=${SHARE_URL_VERSION}.${toBase64Url(JSON.stringify(payload))}`
+}
+
+/**
+ * Restores a scenario from a location hash. Returns null when the hash carries no
+ * scenario, is from an unknown version, or cannot be parsed.
+ */
+export const decodeScenarioHash = (hash: string): ScenarioState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""))
+  const value = params.get(SHARE_HASH_KEY)
+  if (!value) return null
+
+  const separator = value.indexOf(".")
+  if (separator < 0) return null
+  const version = Number.parseInt(value.slice(0, separator), 10)
+  if (version !== SHARE_URL_VERSION) return null
+
+  try {
+    const raw = JSON.parse(fromBase64Url(value.slice(separator + 1)))
+    if (typeof raw !== "object" || raw === null) return null
+    const classes = raw.classes && Array.isArray(raw.classes.list)
+      ? { ...raw.classes, list: raw.classes.list.map((cls: Record<string, unknown>) => ({ ...cls, tiers: expandTiers(cls?.tiers) })) }
+      : raw.classes
+    return sanitizeScenario({ ...raw, tiers: expandTiers(raw.tiers), classes })
+  } catch {
+    return null
+  }
+}
+
+export const buildShareUrl = (state: ScenarioState, href: string): string => {
+  const url = new URL(href)
+  url.hash = encodeScenarioHash(state)
+  return url.toString()
+}
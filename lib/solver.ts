@@ -0,0 +1,222 @@
+import { DemandResult, TierDefinition } from "./demand"
+import { MonteCarloParams, runMonteCarloSimulation } from "./montecarlo"
+
+export type SolverMode = "scale" | "baseFee" | "tiers"
+
+export type UsageTarget =
+  | { kind: "none" }
+  | { kind: "mg"; value: number }
+  | { kind: "conservation"; percent: number }
+
+export interface SolverParams {
+  base: MonteCarloParams
+  revenueRequirement: number
+  mode: SolverMode
+  usageTarget?: UsageTarget
+  /**
+   * Absolute revenue tolerance ($/mo). Defaults to 0.01% of the requirement.
+   */
+  tolerance?: number
+  maxIterations?: number
+}
+
+export interface SolverResult {
+  mode: SolverMode
+  tiers: TierDefinition[]
+  baseFee: number
+  /**
+   * Uniform multiplier applied to the starting prices (scale and tier modes)
+   */
+  scale: number
+  /**
+   * Tier-to-tier price ratio applied on top of the scale (tier mode with a usage target)
+   */
+  steepness: number
+  revenue: number
+  usageMG: number
+  targetMG: number | null
+  iterations: number
+  tolerance: number
+  residual: number
+  converged: boolean
+  message?: string
+}
+
+interface BisectionResult {
+  x: number
+  value: number
+  iterations: number
+  converged: boolean
+}
+
+const DEFAULT_MAX_ITERATIONS = 60
+const MAX_BRACKET_EXPANSIONS = 12
+const MG_TOLERANCE_SHARE = 1e-3
+const STEEPNESS_MAX = 3
+
+/**
+ * Bisection on a monotone function. `increasing` states the direction so the
+ * bracket can be expanded upward (when `expand` is set) until it straddles the target.
+ */
+const bisect = (
+  f: (x: number) => number,
+  target: number,
+  lo: number,
+  hi: number,
+  tolerance: number,
+  maxIterations: number,
+  increasing = true,
+  expand = true,
+): BisectionResult => {
+  let iterations = 0
+  let upper = hi
+  let upperValue = f(upper)
+  iterations++
+
+  const beyond = (value: number) => (increasing ? value >= target : value <= target)
+  for (let i = 0; expand && i < MAX_BRACKET_EXPANSIONS && !beyond(upperValue); i++) {
+    lo = upper
+    upper *= 2
+    upperValue = f(upper)
+    iterations++
+  }
+  if (!beyond(upperValue)) {
+    return { x: upper, value: upperValue, iterations, converged: false }
+  }
+
+  let lower = lo
+  let x = upper
+  let value = upperValue
+  while (iterations < maxIterations && Math.abs(value - target) > tolerance) {
+    x = (lower + upper) / 2
+    value = f(x)
+    iterations++
+    if (beyond(value)) {
+      upper = x
+    } else {
+      lower = x
+    }
+  }
+
+  return { x, value, iterations, converged: Math.abs(value - target) <= tolerance }
+}
+
+export const baselineMG = (result: DemandResult & { samples?: { baseline: number[] } }, connections: number) => {
+  const baseline = result.samples?.baseline ?? []
+  if (baseline.length === 0) return 0
+  const mean = baseline.reduce((sum, value) => sum + value, 0) / baseline.length
+  return (mean * connections) / 1000
+}
+
+export const resolveTargetMG = (target: UsageTarget | undefined, baseline: number): number | null => {
+  if (!target || target.kind === "none") return null
+  if (target.kind === "mg") return Math.max(0, target.value)
+  return Math.max(0, baseline * (1 - target.percent / 100))
+}
+
+export const shapeTiers = (tiers: TierDefinition[], scale: number, steepness = 1): TierDefinition[] => {
+  return tiers.map((tier, idx) => ({ ...tier, price: tier.price * scale * Math.pow(steepness, idx) }))
+}
+
+/**
+ * Back-solves rates so Monte Carlo revenue meets the requirement.
+ * - scale: one multiplier on every tier price and the base fee
+ * - baseFee: tiers held fixed, the base fee absorbs the gap
+ * - tiers: per-tier prices; with a usage target the schedule is steepened
+ *   (price_i ∝ steepness^i) until MG lands on target while revenue stays met
+ */
+export const solveRevenueRequirement = (params: SolverParams): SolverResult => {
+  const { base, revenueRequirement, mode } = params
+  const tolerance = params.tolerance ?? Math.max(1, Math.abs(revenueRequirement) * 1e-4)
+  const maxIterations = params.maxIterations ?? DEFAULT_MAX_ITERATIONS
+  const evaluate = (tiers: TierDefinition[], baseFee: number) => runMonteCarloSimulation({ ...base, tiers, baseFee })
+  const startResult = evaluate(base.tiers, base.baseFee)
+  const targetMG = mode === "tiers" ? resolveTargetMG(params.usageTarget, baselineMG(startResult, base.connections)) : null
+
+  let iterations = 1
+  let scale = 1
+  let steepness = 1
+  let tiers = base.tiers
+  let baseFee = base.baseFee
+  let converged = true
+  let message: string | undefined
+
+  const solveScale = (shape: number, includeBaseFee: boolean) => {
+    const solution = bisect(
+      (x) =>
+        evaluate(shapeTiers(base.tiers, x, shape), includeBaseFee ? base.baseFee * x : base.baseFee).revenue,
+      revenueRequirement,
+      0,
+      2,
+      tolerance,
+      maxIterations,
+    )
+    iterations += solution.iterations
+    return solution
+  }
+
+  if (mode === "baseFee") {
+    const solution = bisect(
+      (fee) => evaluate(base.tiers, fee).revenue,
+      revenueRequirement,
+      0,
+      Math.max(base.baseFee * 2, 10),
+      tolerance,
+      maxIterations,
+    )
+    iterations += solution.iterations
+    baseFee = solution.x
+    converged = solution.converged
+    if (!converged && startResult.revenue > revenueRequirement && evaluate(base.tiers, 0).revenue > revenueRequirement) {
+      message = "Volumetric revenue alone exceeds the requirement; lower tier prices instead."
+    }
+  } else if (mode === "scale" || targetMG === null) {
+    const solution = solveScale(1, mode === "scale")
+    scale = solution.x
+    converged = solution.converged
+    tiers = shapeTiers(base.tiers, scale)
+    baseFee = mode === "scale" ? base.baseFee * scale : base.baseFee
+  } else if (base.tiers.length < 2) {
+    const solution = solveScale(1, false)
+    scale = solution.x
+    tiers = shapeTiers(base.tiers, scale)
+    converged = false
+    message = "A usage target needs at least two tiers to reshape the schedule."
+  } else {
+    const mgTolerance = Math.max(1e-3, targetMG * MG_TOLERANCE_SHARE)
+    let inner: BisectionResult = { x: 1, value: startResult.revenue, iterations: 0, converged: false }
+    const usageAt = (shape: number) => {
+      inner = solveScale(shape, false)
+      return evaluate(shapeTiers(base.tiers, inner.x, shape), base.baseFee).usageMG
+    }
+    // The last evaluation inside the bisection is at outer.x, so `inner` already matches it.
+    const outer = bisect(usageAt, targetMG, 1, STEEPNESS_MAX, mgTolerance, maxIterations, false, false)
+    steepness = outer.x
+    scale = inner.x
+    tiers = shapeTiers(base.tiers, scale, steepness)
+    converged = outer.converged && inner.converged
+    if (!outer.converged) {
+      message = "Usage target is out of reach at this revenue requirement; showing the closest schedule found."
+    }
+  }
+
+  const final = evaluate(tiers, baseFee)
+  iterations++
+  const residual = final.revenue - revenueRequirement
+
+  return {
+    mode,
+    tiers,
+    baseFee,
+    scale,
+    steepness,
+    revenue: final.revenue,
+    usageMG: final.usageMG,
+    targetMG,
+    iterations,
+    tolerance,
+    residual,
+    converged: converged && Math.abs(residual) <= tolerance,
+    message,
+  }
+}
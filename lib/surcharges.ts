@@ -0,0 +1,87 @@
+import type { TierDefinition } from "./demand"
+
+export type SurchargeKind = "perKgal" | "perConnection" | "percent"
+
+/**
+ * One pass-through line on the customer's bill. Lines applied before tax are part of
+ * the base that after-tax percentage lines (utility user taxes, franchise fees) are
+ * levied on; a before-tax percentage line is levied on the water charges alone.
+ */
+export interface SurchargeItem {
+  id: string
+  name: string
+  kind: SurchargeKind
+  /**
+   * $/kgal, $/connection per month, or % depending on `kind`
+   */
+  amount: number
+  afterTax: boolean
+}
+
+export interface SurchargeSettings {
+  enabled: boolean
+  items: SurchargeItem[]
+}
+
+export const SURCHARGE_KIND_LABELS: Record<SurchargeKind, string> = {
+  perKgal: "$/kgal",
+  perConnection: "$/connection",
+  percent: "% of bill",
+}
+
+export const DEFAULT_SURCHARGE_ITEMS: SurchargeItem[] = [
+  { id: "state-fee", name: "State water fee", kind: "perKgal", amount: 0.05, afterTax: false },
+  { id: "capital", name: "Capital surcharge", kind: "perConnection", amount: 3, afterTax: false },
+  { id: "user-tax", name: "Utility user tax", kind: "percent", amount: 5, afterTax: true },
+]
+
+export const DEFAULT_SURCHARGES: SurchargeSettings = {
+  enabled: false,
+  items: DEFAULT_SURCHARGE_ITEMS,
+}
+
+const stageRates = (items: SurchargeItem[], afterTax: boolean) => {
+  const stage = items.filter((item) => item.afterTax === afterTax)
+  const sum = (kind: SurchargeKind) =>
+    stage.filter((item) => item.kind === kind).reduce((total, item) => total + Math.max(item.amount, 0), 0)
+  return { percent: sum("percent") / 100, perKgal: sum("perKgal"), perConnection: sum("perConnection") }
+}
+
+/**
+ * Amount of each line for a household whose water bill is `waterBill` at `usage`.
+ */
+export const computeSurchargeLines = (waterBill: number, usage: number, items: SurchargeItem[]): number[] => {
+  const line = (item: SurchargeItem, percentBase: number) => {
+    const amount = Math.max(item.amount, 0)
+    if (item.kind === "percent") return (percentBase * amount) / 100
+    if (item.kind === "perKgal") return amount * Math.max(usage, 0)
+    return amount
+  }
+  const beforeTax = items.map((item) => (item.afterTax ? 0 : line(item, waterBill)))
+  const taxBase = waterBill + beforeTax.reduce((sum, value) => sum + value, 0)
+  return items.map((item, idx) => (item.afterTax ? line(item, taxBase) : beforeTax[idx]))
+}
+
+/**
+ * Tiers and fixed charge of the whole customer bill. Every line is linear in the water
+ * bill and usage, so the surcharged bill is again a block schedule:
+ * (W·(1 + p₁) + k₁q + c₁)·(1 + p₂) + k₂q + c₂ for before-tax (1) and after-tax (2) lines.
+ */
+export const surchargedCharges = (tiers: TierDefinition[], fixedCharge: number, items: SurchargeItem[]) => {
+  const before = stageRates(items, false)
+  const after = stageRates(items, true)
+  const taxed = (value: number) => value * (1 + after.percent)
+  return {
+    tiers: tiers.map((tier) => ({
+      ...tier,
+      price: taxed(tier.price * (1 + before.percent) + before.perKgal) + after.perKgal,
+    })),
+    fixedCharge: taxed(fixedCharge * (1 + before.percent) + before.perConnection) + after.perConnection,
+  }
+}
+
+export interface SurchargeRevenue {
+  id: string
+  name: string
+  revenue: number
+}
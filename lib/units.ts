@@ -0,0 +1,226 @@
+import type { TierDefinition } from "./demand"
+
+/**
+ * All model math runs in kgal per connection, MG for the system and $ amounts; these
+ * settings only change how quantities are entered and displayed.
+ */
+export type UsageUnit = "kgal" | "ccf" | "m3" | "gal"
+export type VolumeUnit = "MG" | "acreFeet" | "ML"
+
+export interface UnitSettings {
+  usage: UsageUnit
+  volume: VolumeUnit
+  /**
+   * ISO 4217 code; amounts are relabeled, not exchanged
+   */
+  currency: string
+  locale: string
+}
+
+export const DEFAULT_UNITS: UnitSettings = {
+  usage: "kgal",
+  volume: "MG",
+  currency: "USD",
+  locale: "en-US",
+}
+
+interface UsageUnitSpec {
+  label: string
+  short: string
+  /**
+   * Units in one kgal
+   */
+  perKgal: number
+  /**
+   * Decimals when a usage or a price per unit is displayed
+   */
+  decimals: number
+  priceDecimals: number
+  /**
+   * Usage histogram bin width and upper edge, in this unit
+   */
+  binWidth: number
+  binMax: number
+}
+
+export const USAGE_UNITS: Record<UsageUnit, UsageUnitSpec> = {
+  kgal: {
+    label: "Thousand gallons (kgal)",
+    short: "kgal",
+    perKgal: 1,
+    decimals: 2,
+    priceDecimals: 2,
+    binWidth: 1,
+    binMax: 30,
+  },
+  ccf: {
+    label: "Hundred cubic feet (CCF)",
+    short: "CCF",
+    perKgal: 1.336806,
+    decimals: 2,
+    priceDecimals: 2,
+    binWidth: 1,
+    binMax: 40,
+  },
+  m3: {
+    label: "Cubic meters (m³)",
+    short: "m³",
+    perKgal: 3.785412,
+    decimals: 1,
+    priceDecimals: 2,
+    binWidth: 4,
+    binMax: 116,
+  },
+  gal: {
+    label: "Gallons",
+    short: "gal",
+    perKgal: 1000,
+    decimals: 0,
+    priceDecimals: 4,
+    binWidth: 1000,
+    binMax: 30000,
+  },
+}
+
+export const VOLUME_UNITS: Record<VolumeUnit, { label: string; short: string; perMG: number }> = {
+  MG: { label: "Million gallons (MG)", short: "MG", perMG: 1 },
+  acreFeet: { label: "Acre-feet (AF)", short: "AF", perMG: 3.068883 },
+  ML: { label: "Megaliters (ML)", short: "ML", perMG: 3.785412 },
+}
+
+export const CURRENCY_OPTIONS = ["USD", "CAD", "EUR", "GBP", "AUD", "MXN"]
+export const LOCALE_OPTIONS = ["en-US", "en-CA", "fr-CA", "en-GB", "de-DE", "fr-FR", "es-MX", "en-AU"]
+
+const usageFactor = (units: UnitSettings) => USAGE_UNITS[units.usage].perKgal
+
+/**
+ * kgal → display usage
+ */
+export const toUsage = (kgal: number, units: UnitSettings) => kgal * usageFactor(units)
+
+/**
+ * Display usage → kgal
+ */
+export const fromUsage = (value: number, units: UnitSettings) => value / usageFactor(units)
+
+/**
+ * $/kgal → $ per display unit
+ */
+export const toUnitPrice = (pricePerKgal: number, units: UnitSettings) => pricePerKgal / usageFactor(units)
+
+/**
+ * $ per display unit → $/kgal
+ */
+export const fromUnitPrice = (price: number, units: UnitSettings) => price * usageFactor(units)
+
+/**
+ * MG → display system volume
+ */
+export const toVolume = (mg: number, units: UnitSettings) => mg * VOLUME_UNITS[units.volume].perMG
+
+/**
+ * Display system volume → MG
+ */
+export const fromVolume = (value: number, units: UnitSettings) => value / VOLUME_UNITS[units.volume].perMG
+
+// Rounds an input step to 1, 2 or 5 times a power of ten.
+const niceStep = (value: number) => {
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const mantissa = value / magnitude
+  const nice = mantissa < 1.5 ? 1 : mantissa < 3.5 ? 2 : mantissa < 7.5 ? 5 : 10
+  return String(roundForInput(nice * magnitude))
+}
+
+/**
+ * Input step in display units for a usage input whose kgal step is `kgalStep`
+ */
+export const usageStep = (units: UnitSettings, kgalStep = 0.5) => niceStep(toUsage(kgalStep, units))
+
+/**
+ * Input step in display units for a price input whose $/kgal step is `kgalStep`
+ */
+export const priceStep = (units: UnitSettings, kgalStep = 0.01) => niceStep(toUnitPrice(kgalStep, units))
+
+export const usageLabel = (units: UnitSettings) => USAGE_UNITS[units.usage].short
+
+export const volumeLabel = (units: UnitSettings) => VOLUME_UNITS[units.volume].short
+
+export const formatUsage = (kgal: number, units: UnitSettings) =>
+  `${toUsage(kgal, units).toFixed(USAGE_UNITS[units.usage].decimals)} ${usageLabel(units)}`
+
+export const formatVolume = (mg: number, units: UnitSettings, decimals = 2) =>
+  `${toVolume(mg, units).toFixed(decimals)} ${volumeLabel(units)}`
+
+/**
+ * Significant digits kept when a converted value is shown in an input, so kgal values
+ * typed in another unit survive the round trip without long float tails.
+ */
+export const roundForInput = (value: number) => Number(value.toPrecision(6))
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+const currencyFormatter = (units: UnitSettings, decimals: number) => {
+  const key = `${units.locale}|${units.currency}|${decimals}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(units.locale, {
+      style: "currency",
+      currency: units.currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    })
+    formatters.set(key, formatter)
+  }
+  return formatter
+}
+
+export const formatCurrency = (value: number, units: UnitSettings, decimals = 0) =>
+  currencyFormatter(units, decimals).format(value)
+
+/**
+ * Signed change with an explicit + or − ahead of the currency amount
+ */
+export const formatCurrencyChange = (value: number, units: UnitSettings, decimals = 2) =>
+  `${value >= 0 ? "+" : "−"}${formatCurrency(Math.abs(value), units, decimals)}`
+
+/**
+ * Short amounts for chart axes in the locale's compact notation, e.g. $12K
+ */
+export const formatCurrencyCompact = (value: number, units: UnitSettings) =>
+  new Intl.NumberFormat(units.locale, {
+    style: "currency",
+    currency: units.currency,
+    notation: "compact",
+    maximumFractionDigits: 0,
+  }).format(value)
+
+export const currencySymbol = (units: UnitSettings) =>
+  currencyFormatter(units, 0)
+    .formatToParts(0)
+    .find((part) => part.type === "currency")?.value ?? units.currency
+
+export const priceLabel = (units: UnitSettings) => `${currencySymbol(units)}/${usageLabel(units)}`
+
+export const formatPrice = (pricePerKgal: number, units: UnitSettings) =>
+  `${formatCurrency(toUnitPrice(pricePerKgal, units), units, USAGE_UNITS[units.usage].priceDecimals)}/${usageLabel(units)}`
+
+/**
+ * Tier bounds and prices in display units. Water-budget breakpoints are % of budget
+ * and stay as they are.
+ */
+export const toDisplayTiers = <T extends TierDefinition>(tiers: T[], units: UnitSettings, breaksInUsage = true): T[] =>
+  tiers.map((tier) => ({
+    ...tier,
+    lower: breaksInUsage ? roundForInput(toUsage(tier.lower, units)) : tier.lower,
+    upper: tier.upper === null ? null : breaksInUsage ? roundForInput(toUsage(tier.upper, units)) : tier.upper,
+    price: roundForInput(toUnitPrice(tier.price, units)),
+  }))
+
+export const isSupportedCurrency = (currency: string, locale: string) => {
+  try {
+    new Intl.NumberFormat(locale, { style: "currency", currency })
+    return true
+  } catch {
+    return false
+  }
+}
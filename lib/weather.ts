@@ -0,0 +1,225 @@
+import { RateSchedule } from "./bills"
+import { MonteCarloParams } from "./montecarlo"
+import { MONTH_LABELS, buildSeasonalMonths, runSeasonalSimulation, scaleTierPrices } from "./seasonal"
+
+/**
+ * Monthly departures from normal weather: temperature in °F, precipitation in inches.
+ */
+export interface WeatherAnomalies {
+  temp: number[]
+  precip: number[]
+}
+
+export interface WeatherSettings {
+  /**
+   * Proportional change in use per °F above normal
+   */
+  tempSensitivity: number
+  /**
+   * Proportional change in use per inch of precipitation above normal
+   */
+  precipSensitivity: number
+  /**
+   * User-entered or imported anomalies, run as the "Custom" year
+   */
+  custom: WeatherAnomalies
+}
+
+export type WeatherYearId = "hotDry" | "normal" | "coolWet" | "custom"
+
+export interface WeatherYear {
+  id: WeatherYearId
+  label: string
+  anomalies: WeatherAnomalies
+}
+
+const uniformYear = (temp: number, precip: number): WeatherAnomalies => ({
+  temp: MONTH_LABELS.map(() => temp),
+  precip: MONTH_LABELS.map(() => precip),
+})
+
+export const WEATHER_PRESETS: WeatherYear[] = [
+  { id: "hotDry", label: "Hot-dry", anomalies: uniformYear(3, -0.8) },
+  { id: "normal", label: "Normal", anomalies: uniformYear(0, 0) },
+  { id: "coolWet", label: "Cool-wet", anomalies: uniformYear(-2, 1.2) },
+]
+
+export const DEFAULT_WEATHER: WeatherSettings = {
+  tempSensitivity: 0.02,
+  precipSensitivity: -0.04,
+  custom: uniformYear(0, 0),
+}
+
+/**
+ * Log-linear weather shifter on baseline use: exp(βT·ΔT + βP·ΔP).
+ */
+export const weatherMultiplier = (tempAnomaly: number, precipAnomaly: number, settings: WeatherSettings) =>
+  Math.exp(settings.tempSensitivity * tempAnomaly + settings.precipSensitivity * precipAnomaly)
+
+export const weatherMultipliers = (anomalies: WeatherAnomalies, settings: WeatherSettings): number[] =>
+  MONTH_LABELS.map((_, idx) => weatherMultiplier(anomalies.temp[idx] ?? 0, anomalies.precip[idx] ?? 0, settings))
+
+const MONTH_LOOKUP = MONTH_LABELS.map((label) => label.toLowerCase())
+
+const parseMonth = (value: string): number | null => {
+  const trimmed = value.trim().toLowerCase()
+  const numeric = Number.parseInt(trimmed, 10)
+  if (Number.isInteger(numeric) && String(numeric) === trimmed) {
+    return numeric >= 1 && numeric <= 12 ? numeric - 1 : null
+  }
+  const idx = MONTH_LOOKUP.indexOf(trimmed.slice(0, 3))
+  return idx >= 0 ? idx : null
+}
+
+export interface WeatherCsvResult {
+  anomalies: WeatherAnomalies | null
+  errors: string[]
+}
+
+/**
+ * Parses `month,temp_anomaly,precip_anomaly` rows (month as 1–12 or Jan–Dec, header
+ * optional). Months not listed stay at normal weather.
+ */
+export const parseWeatherCsv = (text: string): WeatherCsvResult => {
+  const anomalies = uniformYear(0, 0)
+  const errors: string[] = []
+  let rows = 0
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .forEach((line, idx) => {
+      const cells = line.split(/[,;\t]/)
+      const month = parseMonth(cells[0] ?? "")
+      if (month === null) {
+        if (idx > 0) errors.push(`Line ${idx + 1}: unknown month "${cells[0]}".`)
+        return
+      }
+      const temp = Number.parseFloat(cells[1] ?? "")
+      const precip = Number.parseFloat(cells[2] ?? "")
+      if (!Number.isFinite(temp) || !Number.isFinite(precip)) {
+        errors.push(`Line ${idx + 1}: expected numeric temperature and precipitation anomalies.`)
+        return
+      }
+      anomalies.temp[month] = temp
+      anomalies.precip[month] = precip
+      rows++
+    })
+  if (rows === 0 && errors.length === 0) {
+    errors.push("No weather rows found. Expected month,temp_anomaly,precip_anomaly.")
+  }
+  return { anomalies: errors.length === 0 ? anomalies : null, errors }
+}
+
+export interface WeatherScenarioParams {
+  /**
+   * Monte Carlo setup under the proposed rates; the anchor is normal-weather use
+   */
+  base: MonteCarloParams
+  baselineRates: RateSchedule | null
+  /**
+   * Seasonal shape and summer rate months; all 1 / false when seasonality is off
+   */
+  seasonalMultipliers: number[]
+  summerMonths: boolean[]
+  summerPriceFactor: number
+  settings: WeatherSettings
+}
+
+export interface WeatherYearResult {
+  id: WeatherYearId
+  label: string
+  annualMG: number
+  annualRevenue: number
+  /**
+   * Same weather billed on the baseline rates, when a baseline is frozen
+   */
+  baselineRevenue: number | null
+}
+
+/**
+ * Shares of revenue variance across the rates × weather grid (two-way, no replication).
+ */
+export interface RevenueVarianceAttribution {
+  rateDesign: number
+  weather: number
+  interaction: number
+}
+
+export interface WeatherAnalysis {
+  years: WeatherYearResult[]
+  attribution: RevenueVarianceAttribution | null
+  warnings: string[]
+}
+
+const runWeatherYear = (params: WeatherScenarioParams, year: WeatherYear, rates: RateSchedule) => {
+  const multipliers = weatherMultipliers(year.anomalies, params.settings)
+  const summerTiers = params.summerPriceFactor === 1 ? null : scaleTierPrices(rates.tiers, params.summerPriceFactor)
+  return runSeasonalSimulation({
+    ...params.base,
+    baseFee: rates.baseFee,
+    allowance: rates.allowance,
+    tiers: rates.tiers,
+    months: buildSeasonalMonths(
+      MONTH_LABELS.map((_, idx) => (params.seasonalMultipliers[idx] ?? 1) * multipliers[idx]),
+      params.summerMonths,
+      summerTiers,
+    ),
+  })
+}
+
+const attributeVariance = (grid: number[][]): RevenueVarianceAttribution | null => {
+  const rows = grid.length
+  const cols = grid[0]?.length ?? 0
+  if (rows < 2 || cols < 2) return null
+  const grand = grid.flat().reduce((sum, value) => sum + value, 0) / (rows * cols)
+  const rowMeans = grid.map((row) => row.reduce((sum, value) => sum + value, 0) / cols)
+  const colMeans = grid[0].map((_, c) => grid.reduce((sum, row) => sum + row[c], 0) / rows)
+  const total = grid.flat().reduce((sum, value) => sum + (value - grand) ** 2, 0)
+  if (total <= 0) return { rateDesign: 0, weather: 0, interaction: 0 }
+  const rateDesign = cols * rowMeans.reduce((sum, mean) => sum + (mean - grand) ** 2, 0)
+  const weather = rows * colMeans.reduce((sum, mean) => sum + (mean - grand) ** 2, 0)
+  return {
+    rateDesign: rateDesign / total,
+    weather: weather / total,
+    interaction: Math.max(total - rateDesign - weather, 0) / total,
+  }
+}
+
+/**
+ * Runs the hot-dry, normal, cool-wet and custom years month by month through the
+ * Monte Carlo population under the proposed rates (and the baseline rates when
+ * frozen), then splits annual revenue variance between rate design and weather.
+ */
+export const runWeatherScenarios = (params: WeatherScenarioParams): WeatherAnalysis => {
+  const years: WeatherYear[] = [...WEATHER_PRESETS, { id: "custom", label: "Custom", anomalies: params.settings.custom }]
+  const proposal: RateSchedule = { baseFee: params.base.baseFee, allowance: params.base.allowance, tiers: params.base.tiers }
+  const warnings = new Set<string>()
+
+  const results = years.map((year) => {
+    const result = runWeatherYear(params, year, proposal)
+    // Collapse the per-month copies of the same diagnostic into one line per year.
+    new Set(result.months.flatMap((month) => month.result.warnings)).forEach((warning) =>
+      warnings.add(`${year.label}: ${warning}`),
+    )
+    const baselineRevenue = params.baselineRates
+      ? runWeatherYear(params, year, params.baselineRates).annualRevenue
+      : null
+    return {
+      id: year.id,
+      label: year.label,
+      annualMG: result.annualMG,
+      annualRevenue: result.annualRevenue,
+      baselineRevenue,
+    }
+  })
+
+  const attribution = params.baselineRates
+    ? attributeVariance([
+        results.map((year) => year.baselineRevenue ?? 0),
+        results.map((year) => year.annualRevenue),
+      ])
+    : null
+
+  return { years: results, attribution, warnings: Array.from(warnings) }
+}